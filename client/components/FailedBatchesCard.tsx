@@ -0,0 +1,62 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { FailedBatch } from "@/lib/orderSearch";
+import { describeSearchError } from "@/lib/searchErrors";
+
+export type FailedBatchesCardProps = {
+  batches: FailedBatch[];
+  retrying: FailedBatch | null; // Batch currently being retried
+  disabled?: boolean;
+  onRetry: (batch: FailedBatch) => void;
+};
+
+/**
+ * Lists search batches that failed after retries, each with a Retry button
+ */
+export default function FailedBatchesCard({
+  batches,
+  retrying,
+  disabled = false,
+  onRetry,
+}: FailedBatchesCardProps) {
+  if (batches.length === 0) return null;
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg text-red-700">
+          Failed batches ({batches.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {batches.map((batch) => (
+          <div
+            key={batch.orderNumbers[0]}
+            className="flex items-center justify-between gap-2 bg-red-50 rounded p-2"
+          >
+            <div className="min-w-0">
+              <div className="font-medium text-red-700">
+                {batch.orderNumbers.length} numbers ·{" "}
+                {describeSearchError(batch.error)}
+              </div>
+              <div className="text-xs text-gray-600 truncate font-mono">
+                {batch.orderNumbers[0]} …{" "}
+                {batch.orderNumbers[batch.orderNumbers.length - 1]} (
+                {batch.attempts} attempts)
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={disabled || retrying !== null}
+              onClick={() => onRetry(batch)}
+            >
+              {retrying === batch ? "Retrying…" : "Retry"}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import type { LabelLayout } from "@shared/api";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LABEL_LAYOUT_LABELS,
+  type LabelStamping,
+} from "@/hooks/use-label-layout";
+
+export type LabelOptionsProps = {
+  layout: LabelLayout;
+  stamping: LabelStamping;
+  onLayoutChange: (layout: LabelLayout) => void;
+  onStampingChange: (stamping: LabelStamping) => void;
+};
+
+/**
+ * Label layout plus batch footer and cover page toggles for the PDF
+ */
+export default function LabelOptions({
+  layout,
+  stamping,
+  onLayoutChange,
+  onStampingChange,
+}: LabelOptionsProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="label-layout">Label layout</Label>
+      <Select
+        value={layout}
+        onValueChange={(value) => onLayoutChange(value as LabelLayout)}
+      >
+        <SelectTrigger id="label-layout">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(LABEL_LAYOUT_LABELS) as LabelLayout[]).map((value) => (
+            <SelectItem key={value} value={value}>
+              {LABEL_LAYOUT_LABELS[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="label-stamp"
+          checked={stamping.stamp}
+          onCheckedChange={(checked) =>
+            onStampingChange({ ...stamping, stamp: checked === true })
+          }
+        />
+        <Label htmlFor="label-stamp" className="text-sm font-normal">
+          Stamp batch, order number, time and operator on each label
+        </Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="label-cover"
+          checked={stamping.coverPage}
+          onCheckedChange={(checked) =>
+            onStampingChange({ ...stamping, coverPage: checked === true })
+          }
+        />
+        <Label htmlFor="label-cover" className="text-sm font-normal">
+          Add a batch cover page
+        </Label>
+      </div>
+    </div>
+  );
+}
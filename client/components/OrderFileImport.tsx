@@ -0,0 +1,172 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  extractOrderColumn,
+  guessOrderColumn,
+  isSupportedOrderFile,
+  parseOrderFile,
+  type ImportedSheet,
+} from "@/lib/fileImport";
+
+// Rejected rows listed in the preview; the rest are only counted
+const MAX_REJECTED_PREVIEW = 20;
+
+export type OrderFileImportProps = {
+  disabled?: boolean;
+  onImport: (orderNumbers: string[], fileName: string) => void;
+  onError?: (error: string) => void;
+};
+
+/**
+ * Drop zone for CSV/XLSX order lists with a column picker and a preview of
+ * rejected cells
+ */
+export default function OrderFileImport({
+  disabled = false,
+  onImport,
+  onError,
+}: OrderFileImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportedSheet | null>(null);
+  const [column, setColumn] = useState(0);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (!isSupportedOrderFile(file)) {
+      onError?.(`Unsupported file "${file.name}" - use .csv or .xlsx`);
+      return;
+    }
+
+    try {
+      const parsed = await parseOrderFile(file);
+      if (parsed.rows.length === 0) {
+        onError?.(`"${file.name}" has no data rows`);
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setColumn(guessOrderColumn(parsed));
+    } catch (error) {
+      onError?.(
+        `Could not read "${file.name}": ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  const reset = () => {
+    setSheet(null);
+    setFileName("");
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const preview = sheet ? extractOrderColumn(sheet, column) : null;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={`rounded-lg border-2 border-dashed p-3 text-center text-sm cursor-pointer transition-colors ${
+          dragging
+            ? "border-purple-500 bg-purple-50"
+            : "border-gray-300 text-gray-500"
+        } ${disabled ? "opacity-50 pointer-events-none" : ""}`}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          loadFile(e.dataTransfer.files[0]);
+        }}
+      >
+        {fileName
+          ? `${fileName} · ${sheet?.rows.length ?? 0} rows`
+          : "Drop a .csv or .xlsx file here, or click to choose"}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => loadFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {sheet && preview && (
+        <div className="space-y-2 rounded-lg bg-gray-50 p-3 text-sm">
+          <div className="space-y-1">
+            <Label htmlFor="import-column">Column with order numbers</Label>
+            <Select
+              value={String(column)}
+              onValueChange={(value) => setColumn(Number(value))}
+            >
+              <SelectTrigger id="import-column">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheet.columns.map((label, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {label}
+                    {sheet.rows[0]?.[index]
+                      ? ` (e.g. ${sheet.rows[0][index]})`
+                      : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="text-green-600">
+            Valid numbers: {preview.orderNumbers.length}
+          </div>
+
+          {preview.rejected.length > 0 && (
+            <div className="text-red-600 space-y-1">
+              <div>Rejected cells: {preview.rejected.length}</div>
+              <div className="bg-red-50 rounded p-2 max-h-32 overflow-y-auto font-mono text-xs">
+                {preview.rejected.slice(0, MAX_REJECTED_PREVIEW).map((r) => (
+                  <div key={`${r.row}-${r.value}`}>
+                    Row {r.row}: "{r.value}" - {r.reason}
+                  </div>
+                ))}
+                {preview.rejected.length > MAX_REJECTED_PREVIEW && (
+                  <div>
+                    …and {preview.rejected.length - MAX_REJECTED_PREVIEW} more
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={disabled || preview.orderNumbers.length === 0}
+              onClick={() => {
+                onImport(preview.orderNumbers, fileName);
+                reset();
+              }}
+            >
+              Add {preview.orderNumbers.length} numbers
+            </Button>
+            <Button size="sm" variant="outline" onClick={reset}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { OrderDetails, SearchResult } from "@/lib/orderSearch";
+
+// One table row per resolved ID
+type OrderRow = OrderDetails & {
+  id: number;
+  orderNumber: string;
+  unrequested: boolean;
+};
+
+export type OrderResultsTableProps = {
+  result: SearchResult;
+  excludedIds: Set<number>; // Unchecked rows; everything else is selected
+  disabled?: boolean;
+  onExcludedChange: (excludedIds: Set<number>) => void;
+};
+
+/**
+ * Build table rows in download order from a search result
+ */
+function buildRows(result: SearchResult): OrderRow[] {
+  const byId = new Map<number, OrderRow>();
+  for (const order of result.orders) {
+    byId.set(order.id, { ...order, unrequested: false });
+  }
+  for (const order of result.unrequested) {
+    if (!byId.has(order.id)) {
+      byId.set(order.id, { ...order, unrequested: true });
+    }
+  }
+
+  return result.ids.map(
+    (id) => byId.get(id) ?? { id, orderNumber: "", unrequested: true },
+  );
+}
+
+/**
+ * Resolved orders with their Shipox details and a checkbox per row
+ * Only checked orders are downloaded
+ */
+export default function OrderResultsTable({
+  result,
+  excludedIds,
+  disabled = false,
+  onExcludedChange,
+}: OrderResultsTableProps) {
+  const rows = useMemo(() => buildRows(result), [result]);
+
+  if (rows.length === 0) return null;
+
+  const selectedCount = rows.filter((row) => !excludedIds.has(row.id)).length;
+  const allState =
+    selectedCount === rows.length
+      ? true
+      : selectedCount === 0
+        ? false
+        : "indeterminate";
+
+  const toggleRow = (id: number, checked: boolean) => {
+    const next = new Set(excludedIds);
+    if (checked) next.delete(id);
+    else next.add(id);
+    onExcludedChange(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    onExcludedChange(checked ? new Set() : new Set(rows.map((row) => row.id)));
+  };
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">
+          Orders ({selectedCount}/{rows.length} selected)
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={allState}
+                    disabled={disabled}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all orders"
+                  />
+                </TableHead>
+                <TableHead>Order number</TableHead>
+                <TableHead>ID</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>City</TableHead>
+                <TableHead>Courier</TableHead>
+                <TableHead className="text-right">COD</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  className={row.unrequested ? "bg-amber-50" : undefined}
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={!excludedIds.has(row.id)}
+                      disabled={disabled}
+                      onCheckedChange={(checked) =>
+                        toggleRow(row.id, checked === true)
+                      }
+                      aria-label={`Select order ${row.orderNumber || row.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    {row.orderNumber || "—"}
+                    {row.unrequested && (
+                      <span className="ml-1 text-xs text-amber-600">
+                        (unrequested)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono">{row.id}</TableCell>
+                  <TableCell>{row.status ?? "—"}</TableCell>
+                  <TableCell>{row.city ?? "—"}</TableCell>
+                  <TableCell>{row.courier ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {row.codAmount !== undefined
+                      ? row.codAmount.toLocaleString()
+                      : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
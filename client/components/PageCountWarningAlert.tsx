@@ -0,0 +1,57 @@
+import React from "react";
+import type { PdfPageCountWarning } from "@shared/api";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+// Order numbers listed per chunk before the list is cut off
+const ORDER_NUMBERS_PREVIEW = 5;
+
+export type PageCountWarningAlertProps = {
+  warning: PdfPageCountWarning | null;
+  orderNumberById: Map<string, string>; // Shipox ID -> order number
+  onDismiss: () => void;
+};
+
+/**
+ * Warns that Fargo returned fewer label pages than orders, per PDF part,
+ * so the batch is checked before it is handed to couriers
+ */
+export default function PageCountWarningAlert({
+  warning,
+  orderNumberById,
+  onDismiss,
+}: PageCountWarningAlertProps) {
+  if (!warning) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50">
+      <AlertDescription className="space-y-1 text-sm text-amber-800">
+        <div className="flex justify-between gap-2">
+          <span className="font-medium">
+            PDF has {warning.actual} pages for {warning.expected} orders - some
+            labels may be missing
+          </span>
+          <button
+            type="button"
+            className="text-xs underline"
+            onClick={onDismiss}
+          >
+            Dismiss
+          </button>
+        </div>
+        {warning.chunks.map((chunk) => {
+          const names = chunk.ids.map((id) => orderNumberById.get(id) ?? id);
+          return (
+            <div key={chunk.index} className="text-xs font-mono">
+              Part {chunk.index + 1}: {chunk.pages ?? "unreadable"} pages /{" "}
+              {chunk.ids.length} orders (
+              {names.slice(0, ORDER_NUMBERS_PREVIEW).join(", ")}
+              {names.length > ORDER_NUMBERS_PREVIEW &&
+                ` … +${names.length - ORDER_NUMBERS_PREVIEW}`}
+              )
+            </div>
+          );
+        })}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from "react";
+import type { AgentPrinter } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listAgentPrinters, type PrintTarget } from "@/lib/pdfViewer";
+
+// Radix Select items need a non-empty value
+const DEFAULT_PRINTER = "__default__";
+
+// Mirrors MAX_COPIES in server/lib/printAgent.ts
+const MAX_COPIES = 20;
+
+export type PrintTargetSettingsProps = {
+  value: PrintTarget;
+  onChange: (target: PrintTarget) => void;
+};
+
+/**
+ * Choose between opening PDFs in a new tab and silent printing through the
+ * local print agent, with printer and copies for the latter
+ */
+export default function PrintTargetSettings({
+  value,
+  onChange,
+}: PrintTargetSettingsProps) {
+  const [printers, setPrinters] = useState<AgentPrinter[]>([]);
+  const [agentError, setAgentError] = useState("");
+
+  const loadPrinters = async () => {
+    setAgentError("");
+    try {
+      setPrinters(await listAgentPrinters());
+    } catch (error) {
+      setPrinters([]);
+      const message = error instanceof Error ? error.message : String(error);
+      setAgentError(
+        message === "PRINT_AGENT_UNAVAILABLE"
+          ? "Print agent is not running (start it with npm run print-agent) - PDFs will open in a new tab"
+          : `Print agent error: ${message}`,
+      );
+    }
+  };
+
+  useEffect(() => {
+    if (value.kind === "agent") loadPrinters();
+  }, [value.kind]);
+
+  const agent = value.kind === "agent" ? value : null;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="print-target">Send labels to</Label>
+      <Select
+        value={value.kind}
+        onValueChange={(kind) =>
+          onChange(kind === "agent" ? { kind, copies: 1 } : { kind: "tab" })
+        }
+      >
+        <SelectTrigger id="print-target">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="tab">New tab (print manually)</SelectItem>
+          <SelectItem value="agent">Print agent (silent printing)</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {agent && (
+        <div className="grid grid-cols-[1fr_5rem_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="agent-printer" className="text-xs">
+              Printer
+            </Label>
+            <Select
+              value={agent.printer || DEFAULT_PRINTER}
+              onValueChange={(printer) =>
+                onChange({
+                  ...agent,
+                  printer: printer === DEFAULT_PRINTER ? undefined : printer,
+                })
+              }
+            >
+              <SelectTrigger id="agent-printer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PRINTER}>System default</SelectItem>
+                {printers.map((printer) => (
+                  <SelectItem key={printer.name} value={printer.name}>
+                    {printer.name}
+                    {printer.isDefault ? " (default)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="agent-copies" className="text-xs">
+              Copies
+            </Label>
+            <Input
+              id="agent-copies"
+              type="number"
+              min={1}
+              max={MAX_COPIES}
+              value={agent.copies}
+              onChange={(e) =>
+                onChange({
+                  ...agent,
+                  copies: Math.min(
+                    Math.max(Number(e.target.value) || 1, 1),
+                    MAX_COPIES,
+                  ),
+                })
+              }
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={loadPrinters}>
+            Refresh
+          </Button>
+        </div>
+      )}
+
+      {agent && agentError && (
+        <div className="text-xs text-amber-700">{agentError}</div>
+      )}
+    </div>
+  );
+}
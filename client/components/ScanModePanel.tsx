@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { playScanTone } from "@/lib/barcodeScanner";
+import { orderNumberKey } from "@/lib/orderSearch";
+
+// Last scan shown under the toggle
+type ScanFeedback = { code: string; accepted: boolean; message: string };
+
+export type ScanModePanelProps = {
+  enabled: boolean;
+  disabled?: boolean; // A search is running; scans are still collected
+  existing: string[]; // Normalized numbers already in the list
+  onEnabledChange: (enabled: boolean) => void;
+  onScan: (code: string) => void; // Accepted (non-duplicate) scan
+  onAutoSearch: () => void;
+};
+
+/**
+ * Scan mode toggle with auto-search settings and scan confirmation
+ * Duplicates of numbers already in the list are rejected with a low tone.
+ */
+export default function ScanModePanel({
+  enabled,
+  disabled = false,
+  existing,
+  onEnabledChange,
+  onScan,
+  onAutoSearch,
+}: ScanModePanelProps) {
+  const [autoAfterScans, setAutoAfterScans] = useState(0);
+  const [idleSeconds, setIdleSeconds] = useState(0);
+  const [pendingScans, setPendingScans] = useState(0); // Since last search
+  const [queued, setQueued] = useState(false); // Scanned during a search
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const disabledRef = useRef(disabled); // Read by the idle timer
+  disabledRef.current = disabled;
+
+  const triggerSearch = () => {
+    clearTimeout(idleTimerRef.current);
+    if (disabledRef.current) {
+      setQueued(true);
+      return;
+    }
+    setPendingScans(0);
+    onAutoSearch();
+  };
+
+  // Search now if enough scans piled up, otherwise (re)start the idle timer
+  const scheduleAutoSearch = (scans: number) => {
+    if (autoAfterScans > 0 && scans >= autoAfterScans) {
+      triggerSearch();
+      return;
+    }
+
+    if (idleSeconds > 0) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = setTimeout(triggerSearch, idleSeconds * 1000);
+    }
+  };
+
+  useBarcodeScanner(enabled, (code) => {
+    const key = orderNumberKey(code);
+    if (existing.some((n) => orderNumberKey(n) === key)) {
+      playScanTone(false);
+      setFeedback({ code, accepted: false, message: "already in the list" });
+      return;
+    }
+
+    playScanTone(true);
+    setFeedback({ code, accepted: true, message: "added" });
+    onScan(code);
+
+    const scans = pendingScans + 1;
+    setPendingScans(scans);
+
+    if (disabled) {
+      setQueued(true);
+      return;
+    }
+
+    scheduleAutoSearch(scans);
+  });
+
+  // Scans collected while a search was running get their auto-search once
+  // it finishes
+  useEffect(() => {
+    if (disabled || !queued) return;
+    setQueued(false);
+    if (enabled) scheduleAutoSearch(pendingScans);
+  }, [disabled, queued]);
+
+  // Pending idle search is dropped when scan mode is turned off
+  useEffect(() => {
+    if (!enabled) clearTimeout(idleTimerRef.current);
+    return () => clearTimeout(idleTimerRef.current);
+  }, [enabled]);
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="scan-mode">Barcode scan mode</Label>
+        <Switch
+          id="scan-mode"
+          checked={enabled}
+          onCheckedChange={(checked) => {
+            setPendingScans(0);
+            setQueued(false);
+            setFeedback(null);
+            onEnabledChange(checked);
+          }}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="scan-auto-count" className="text-xs">
+                Search after N scans (0 = off)
+              </Label>
+              <Input
+                id="scan-auto-count"
+                type="number"
+                min={0}
+                value={autoAfterScans}
+                onChange={(e) =>
+                  setAutoAfterScans(Math.max(0, Number(e.target.value) || 0))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scan-idle" className="text-xs">
+                Search after idle seconds (0 = off)
+              </Label>
+              <Input
+                id="scan-idle"
+                type="number"
+                min={0}
+                value={idleSeconds}
+                onChange={(e) =>
+                  setIdleSeconds(Math.max(0, Number(e.target.value) || 0))
+                }
+              />
+            </div>
+          </div>
+
+          <div
+            className={`rounded p-2 text-sm font-mono transition-colors ${
+              !feedback
+                ? "bg-gray-50 text-gray-500"
+                : feedback.accepted
+                  ? "bg-green-100 text-green-700"
+                  : "bg-red-100 text-red-700"
+            }`}
+          >
+            {feedback
+              ? `${feedback.accepted ? "✓" : "✗"} ${feedback.code} - ${feedback.message}`
+              : "Ready - scan a parcel"}
+          </div>
+          <div className="text-xs text-gray-600">
+            Scanned since last search: {pendingScans}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import type { SearchProgress } from "@/lib/orderSearch";
+
+export type SearchProgressBarProps = {
+  progress: SearchProgress | null;
+};
+
+/**
+ * Batch progress of a running order search
+ * Shows an indeterminate label until the server reports the batch count
+ */
+export default function SearchProgressBar({
+  progress,
+}: SearchProgressBarProps) {
+  const percent =
+    progress && progress.batchesTotal > 0
+      ? Math.round((progress.batchesCompleted / progress.batchesTotal) * 100)
+      : 0;
+
+  return (
+    <div className="space-y-1">
+      <Progress value={percent} />
+      <div className="text-xs text-gray-600">
+        {progress
+          ? `Batches: ${progress.batchesCompleted}/${progress.batchesTotal} · Items collected: ${progress.itemsCollected}`
+          : "Preparing search..."}
+      </div>
+    </div>
+  );
+}
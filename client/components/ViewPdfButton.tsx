@@ -4,18 +4,23 @@ import {
   openPdfInNewTab,
   needsSafariFallback,
   SAME_ORIGIN,
+  type PdfOpenResult,
+  type PrintTarget,
 } from "@/lib/pdfViewer";
+import type { PdfRenderOptions } from "@shared/api";
 
 export type ViewPdfButtonProps = {
   idsEncoded: string;
   idToken: string;
   wBh?: string; // w-bh cookie value for Fargo API
+  render?: PdfRenderOptions; // Layout, stamping and cover page
+  printTarget?: PrintTarget; // New tab (default) or the local print agent
   sameOrigin?: boolean; // Override global SAME_ORIGIN setting if needed
   className?: string;
   disabled?: boolean;
   children?: React.ReactNode; // Allow custom button text
   onError?: (error: string) => void; // Callback for error handling
-  onSuccess?: () => void; // Callback for successful PDF opening
+  onSuccess?: (result: PdfOpenResult) => void; // Callback for successful PDF opening
 };
 
 /**
@@ -26,6 +31,8 @@ export default function ViewPdfButton({
   idsEncoded,
   idToken,
   wBh,
+  render,
+  printTarget = { kind: "tab" },
   sameOrigin = SAME_ORIGIN,
   className,
   disabled = false,
@@ -71,11 +78,21 @@ export default function ViewPdfButton({
 
       // Open PDF using the hardened proxy with debug headers
       // Pass wBh token for proper Fargo API authentication
-      await openPdfInNewTab(idsEncoded, idToken, useSafariFallback, wBh);
+      const result = await openPdfInNewTab(
+        idsEncoded,
+        idToken,
+        useSafariFallback,
+        wBh,
+        render,
+        printTarget,
+      );
 
       // Success callback
       console.log("✅ PDF opened successfully");
-      onSuccess?.();
+      if (result.failedChunks.length > 0) {
+        console.warn("⚠️ Some PDF chunks failed:", result.failedChunks);
+      }
+      onSuccess?.(result);
     } catch (e: any) {
       let errorMessage = "Failed to open PDF";
 
@@ -114,7 +131,11 @@ export default function ViewPdfButton({
         disabled={loading || disabled || !idsEncoded || !idToken}
         className={className}
       >
-        {loading ? "Opening…" : children}
+        {loading
+          ? printTarget.kind === "agent"
+            ? "Printing…"
+            : "Opening…"
+          : children}
       </Button>
 
       {error && <div className="text-sm text-red-600 text-center">{error}</div>}
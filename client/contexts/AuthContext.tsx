@@ -5,6 +5,7 @@ interface AuthContextType {
   login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
   getTokens: () => { idToken: string; wBh?: string };
+  getUsername: () => string;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -35,6 +36,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     return { idToken, wBh };
   };
 
+  const getUsername = () => localStorage.getItem("shipox_username") || "";
+
   const login = async (
     username: string,
     password: string,
@@ -68,6 +71,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
       const idToken = data.data.id_token;
       localStorage.setItem("shipox_token", idToken);
+      localStorage.setItem("shipox_username", username);
 
       // Step 2: Get w-bh token from server endpoint
       try {
@@ -127,10 +131,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setIsAuthenticated(false);
     localStorage.removeItem("shipox_token");
     localStorage.removeItem("w_bh_token");
+    localStorage.removeItem("shipox_username");
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout, getTokens }}>
+    <AuthContext.Provider
+      value={{ isAuthenticated, login, logout, getTokens, getUsername }}
+    >
       {children}
     </AuthContext.Provider>
   );
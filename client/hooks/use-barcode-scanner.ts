@@ -0,0 +1,41 @@
+import * as React from "react";
+import { createScanBuffer } from "@/lib/barcodeScanner";
+
+/**
+ * Listen for barcode scanner bursts anywhere on the page while enabled
+ * Keystrokes aimed at editable inputs are left alone so settings stay
+ * editable; read-only fields (the order list in scan mode) are captured.
+ * @param enabled - Whether scan mode is on
+ * @param onScan - Called with each scanned code
+ */
+export function useBarcodeScanner(
+  enabled: boolean,
+  onScan: (code: string) => void,
+) {
+  const onScanRef = React.useRef(onScan);
+  onScanRef.current = onScan;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const buffer = createScanBuffer();
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLInputElement | null;
+      const editable =
+        target?.isContentEditable ||
+        ((target?.tagName === "INPUT" || target?.tagName === "TEXTAREA") &&
+          !target.readOnly);
+      if (editable) return;
+
+      const code = buffer.push(event.key, event.timeStamp);
+      if (code) {
+        event.preventDefault();
+        onScanRef.current(code);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,73 @@
+import * as React from "react";
+import type { LabelLayout } from "@shared/api";
+import { useAuth } from "@/contexts/AuthContext";
+
+export const LABEL_LAYOUT_LABELS: Record<LabelLayout, string> = {
+  single: "Single labels",
+  "a4-2up": "A4, 2 per sheet",
+  "a4-4up": "A4, 4 per sheet",
+};
+
+/**
+ * Label layout remembered per user in localStorage
+ * Branches share browsers, so the choice is keyed by the logged-in username
+ * @returns Current layout and a setter that persists it
+ */
+export function useLabelLayout(): [LabelLayout, (layout: LabelLayout) => void] {
+  const { getUsername } = useAuth();
+  const storageKey = `label_layout:${getUsername()}`;
+
+  const [layout, setLayoutState] = React.useState<LabelLayout>(() => {
+    const saved = localStorage.getItem(storageKey);
+    return saved && saved in LABEL_LAYOUT_LABELS
+      ? (saved as LabelLayout)
+      : "single";
+  });
+
+  const setLayout = (next: LabelLayout) => {
+    setLayoutState(next);
+    localStorage.setItem(storageKey, next);
+  };
+
+  return [layout, setLayout];
+}
+
+/**
+ * Footer stamping and cover page choices, remembered per user
+ */
+export interface LabelStamping {
+  stamp: boolean;
+  coverPage: boolean;
+}
+
+/**
+ * Label stamping options remembered per user in localStorage
+ * @returns Current options and a setter that persists them
+ */
+export function useLabelStamping(): [
+  LabelStamping,
+  (stamping: LabelStamping) => void,
+] {
+  const { getUsername } = useAuth();
+  const storageKey = `label_stamping:${getUsername()}`;
+
+  const [stamping, setStampingState] = React.useState<LabelStamping>(() => {
+    const saved = localStorage.getItem(storageKey) || "";
+    return {
+      stamp: saved.includes("stamp"),
+      coverPage: saved.includes("cover"),
+    };
+  });
+
+  const setStamping = (next: LabelStamping) => {
+    setStampingState(next);
+    localStorage.setItem(
+      storageKey,
+      [next.stamp && "stamp", next.coverPage && "cover"]
+        .filter(Boolean)
+        .join(","),
+    );
+  };
+
+  return [stamping, setStamping];
+}
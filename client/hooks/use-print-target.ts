@@ -0,0 +1,35 @@
+import * as React from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import type { PrintTarget } from "@/lib/pdfViewer";
+
+/**
+ * Print target remembered per user in localStorage
+ * @returns Current target and a setter that persists it
+ */
+export function usePrintTarget(): [PrintTarget, (target: PrintTarget) => void] {
+  const { getUsername } = useAuth();
+  const storageKey = `print_target:${getUsername()}`;
+
+  const [target, setTargetState] = React.useState<PrintTarget>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(storageKey) || "null");
+      if (saved?.kind === "agent") {
+        return {
+          kind: "agent",
+          printer: saved.printer || undefined,
+          copies: Number(saved.copies) || 1,
+        };
+      }
+    } catch {
+      // Corrupt value: fall back to a new tab
+    }
+    return { kind: "tab" };
+  });
+
+  const setTarget = (next: PrintTarget) => {
+    setTargetState(next);
+    localStorage.setItem(storageKey, JSON.stringify(next));
+  };
+
+  return [target, setTarget];
+}
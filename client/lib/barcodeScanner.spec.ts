@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { createScanBuffer } from "./barcodeScanner";
+
+/**
+ * Feed keys to the buffer at a fixed interval, returning emitted codes
+ */
+function type(keys: string[], intervalMs: number, start = 1000) {
+  const buffer = createScanBuffer();
+  return keys
+    .map((key, i) => buffer.push(key, start + i * intervalMs))
+    .filter(Boolean);
+}
+
+describe("createScanBuffer", () => {
+  it("should emit a fast burst ending with Enter", () => {
+    expect(type([..."123456", "Enter"], 10)).toEqual(["123456"]);
+  });
+
+  it("should ignore human-speed typing", () => {
+    expect(type([..."123456", "Enter"], 200)).toEqual([]);
+  });
+
+  it("should drop slow keys typed before a burst", () => {
+    const buffer = createScanBuffer();
+    buffer.push("x", 0);
+    const keys = [..."98765", "Enter"];
+    const codes = keys.map((k, i) => buffer.push(k, 1000 + i * 5));
+    expect(codes.filter(Boolean)).toEqual(["98765"]);
+  });
+
+  it("should ignore bursts shorter than the minimum", () => {
+    expect(type(["1", "2", "Enter"], 5)).toEqual([]);
+  });
+});
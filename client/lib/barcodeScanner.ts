@@ -0,0 +1,90 @@
+/**
+ * USB HID barcode scanner support
+ * Scanners "type" the code much faster than a person and finish with Enter;
+ * the buffer below tells those bursts apart from normal typing
+ */
+
+// Longest gap between two scanner keystrokes
+const DEFAULT_MAX_KEY_INTERVAL_MS = 50;
+
+// Shorter bursts are treated as typing (or key repeat), not scans
+const DEFAULT_MIN_LENGTH = 4;
+
+export interface ScanBufferOptions {
+  maxKeyIntervalMs?: number;
+  minLength?: number;
+}
+
+export interface ScanBuffer {
+  /**
+   * Feed one keydown
+   * @param key - KeyboardEvent.key
+   * @param timestamp - Event time in ms
+   * @returns The scanned code when Enter completes a burst, otherwise null
+   */
+  push(key: string, timestamp: number): string | null;
+  reset(): void;
+}
+
+/**
+ * Create a keystroke buffer that recognizes scanner bursts
+ * @param opts - Timing and length thresholds
+ * @returns Stateful buffer
+ */
+export function createScanBuffer(opts: ScanBufferOptions = {}): ScanBuffer {
+  const {
+    maxKeyIntervalMs = DEFAULT_MAX_KEY_INTERVAL_MS,
+    minLength = DEFAULT_MIN_LENGTH,
+  } = opts;
+  let buffer = "";
+  let lastAt = 0;
+
+  return {
+    push(key, timestamp) {
+      const gap = timestamp - lastAt;
+      lastAt = timestamp;
+
+      if (key === "Enter") {
+        const code = buffer.trim();
+        buffer = "";
+        return gap <= maxKeyIntervalMs && code.length >= minLength
+          ? code
+          : null;
+      }
+
+      // Only printable characters are part of a code
+      if (key.length !== 1) return null;
+
+      // A slow keystroke starts a new burst
+      buffer = gap <= maxKeyIntervalMs ? buffer + key : key;
+      return null;
+    },
+    reset() {
+      buffer = "";
+      lastAt = 0;
+    },
+  };
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short confirmation tone: high for an accepted scan, low for a rejected one
+ * Silently does nothing where Web Audio is unavailable
+ * @param accepted - Whether the scan was accepted
+ */
+export function playScanTone(accepted: boolean): void {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.frequency.value = accepted ? 1200 : 300;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (accepted ? 0.08 : 0.25));
+  } catch {
+    // No audio output; the visual confirmation still shows
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractOrderColumn,
+  guessOrderColumn,
+  toImportedSheet,
+} from "./fileImport";
+
+describe("toImportedSheet", () => {
+  it("should detect a header row", () => {
+    const sheet = toImportedSheet([
+      ["Name", "Order number"],
+      ["Ali", "00123"],
+    ]);
+    expect(sheet.hasHeader).toBe(true);
+    expect(sheet.columns).toEqual(["Name", "Order number"]);
+    expect(sheet.rows).toEqual([["Ali", "00123"]]);
+  });
+
+  it("should write out long numeric cells in full", () => {
+    const sheet = toImportedSheet([[998901234567, 123456789012345, 1.5]]);
+    expect(sheet.rows).toEqual([["998901234567", "123456789012345", "1.5"]]);
+  });
+
+  it("should drop the apostrophe added by the CSV export", () => {
+    const sheet = toImportedSheet([["'-REF-1"]]);
+    expect(sheet.rows).toEqual([["-REF-1"]]);
+  });
+
+  it("should label columns when there is no header", () => {
+    const sheet = toImportedSheet([["123", "456"]]);
+    expect(sheet.hasHeader).toBe(false);
+    expect(sheet.columns).toEqual(["Column A", "Column B"]);
+  });
+});
+
+describe("guessOrderColumn", () => {
+  it("should prefer a matching header", () => {
+    const sheet = toImportedSheet([
+      ["Phone", "Tracking"],
+      ["998901234567", "A1"],
+    ]);
+    expect(guessOrderColumn(sheet)).toBe(1);
+  });
+
+  it("should fall back to the column with most numbers", () => {
+    const sheet = toImportedSheet([
+      ["x", "123"],
+      ["y", "456"],
+    ]);
+    expect(guessOrderColumn(sheet)).toBe(1);
+  });
+});
+
+describe("extractOrderColumn", () => {
+  it("should normalize numbers and report rejected cells", () => {
+    const sheet = toImportedSheet([
+      ["Order"],
+      ["00123"],
+      [""],
+      ["456, 00123"],
+      ["bad;value"],
+      ["9.98901E+11"],
+      [""],
+    ]);
+    const { orderNumbers, rejected } = extractOrderColumn(sheet, 0);
+    expect(orderNumbers).toEqual(["00123", "456"]);
+    expect(rejected).toEqual([
+      { row: 5, value: "bad;value", reason: "unexpected characters" },
+      {
+        row: 6,
+        value: "9.98901E+11",
+        reason: "number in exponent form (format the column as text)",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * CSV/XLSX import of order numbers
+ * Files are parsed in the browser with SheetJS; only the first sheet is read
+ */
+
+import { read, utils } from "xlsx";
+import { normalizeOrderNumbers } from "@shared/orderNumbers";
+
+// Longest order number the server accepts
+const MAX_ORDER_NUMBER_LENGTH = 64;
+
+// Characters seen in order numbers, references and phones
+const VALID_TOKEN = /^[\p{L}\d+\-_/.()#]+$/u;
+
+// Numbers Excel displays in scientific notation ("9.98901E+11"); their
+// digits are lost, so they are rejected instead of searched
+const EXPONENT_FORM = /^[+-]?\d+(\.\d+)?e[+-]?\d+$/i;
+
+// Header names that usually label the order number column
+const ORDER_COLUMN_HEADER =
+  /order|tracking|awb|reference|номер|заказ|buyurtma/i;
+
+/**
+ * First sheet of an imported file, as text cells
+ */
+export interface ImportedSheet {
+  columns: string[]; // Header text, or "Column A", "Column B", ...
+  rows: string[][]; // Data rows (header row excluded)
+  hasHeader: boolean;
+}
+
+/**
+ * Cell that could not be used as an order number
+ */
+export interface RejectedRow {
+  row: number; // 1-based row number as shown in a spreadsheet
+  value: string;
+  reason: string;
+}
+
+/**
+ * Order numbers taken from one column of a sheet
+ */
+export interface ColumnImport {
+  orderNumbers: string[]; // Normalized and deduplicated
+  rejected: RejectedRow[];
+}
+
+/**
+ * Check whether a file looks like a supported spreadsheet
+ * @param file - File picked or dropped by the user
+ * @returns true for .csv, .xlsx and .xls files
+ */
+export function isSupportedOrderFile(file: File): boolean {
+  return /\.(csv|xlsx|xls)$/i.test(file.name);
+}
+
+/**
+ * Text of a raw cell value
+ * Whole numbers are written out digit by digit (String() switches to
+ * exponent form from 1e21), so long order numbers and phones stored as
+ * numbers survive. A leading apostrophe (how our CSV export keeps cells from
+ * running as formulas) is dropped.
+ */
+function cellText(cell: unknown): string {
+  if (typeof cell === "number" && Number.isInteger(cell)) {
+    return BigInt(cell).toString();
+  }
+  return String(cell ?? "")
+    .trim()
+    .replace(/^'/, "");
+}
+
+/**
+ * Turn raw sheet rows into an ImportedSheet, detecting a header row
+ * A first row without any digits is treated as a header.
+ * @param raw - Rows of cell values
+ * @returns Sheet with column labels and data rows
+ */
+export function toImportedSheet(raw: unknown[][]): ImportedSheet {
+  const rows = raw.map((row) => row.map(cellText));
+
+  // Blank rows in the middle stay so reported row numbers match the file
+  while (rows.length > 0 && !rows[rows.length - 1].some(Boolean)) rows.pop();
+
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const first = rows[0] ?? [];
+  const hasHeader =
+    first.some(Boolean) && first.every((cell) => !/\d/.test(cell));
+
+  const columns = Array.from({ length: width }, (_, index) =>
+    hasHeader && first[index]
+      ? first[index]
+      : `Column ${utils.encode_col(index)}`,
+  );
+
+  return { columns, rows: hasHeader ? rows.slice(1) : rows, hasHeader };
+}
+
+/**
+ * Read the first sheet of a CSV or Excel file
+ * CSV cells are kept as text so leading zeros survive. Excel cells are read
+ * as raw values, not as displayed: the display format shortens numbers of
+ * 12 or more digits to "9.98901E+11".
+ * @param file - File picked or dropped by the user
+ * @returns Promise with the parsed sheet
+ */
+export async function parseOrderFile(file: File): Promise<ImportedSheet> {
+  const workbook = /\.csv$/i.test(file.name)
+    ? read(await file.text(), { type: "string", raw: true })
+    : read(await file.arrayBuffer(), { type: "array" });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("IMPORT_EMPTY_FILE");
+
+  return toImportedSheet(
+    utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: true,
+      defval: "",
+    }),
+  );
+}
+
+/**
+ * Pick the column most likely to hold order numbers
+ * Prefers a matching header, then the column with the most valid cells.
+ * @param sheet - Parsed sheet
+ * @returns Column index (0 for an empty sheet)
+ */
+export function guessOrderColumn(sheet: ImportedSheet): number {
+  if (sheet.hasHeader) {
+    const byHeader = sheet.columns.findIndex((c) =>
+      ORDER_COLUMN_HEADER.test(c),
+    );
+    if (byHeader >= 0) return byHeader;
+  }
+
+  let best = 0;
+  let bestCount = -1;
+  sheet.columns.forEach((_, index) => {
+    const count = sheet.rows.filter(
+      (row) => row[index] && !rejectReason(row[index]) && /\d/.test(row[index]),
+    ).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Explain why a cell cannot be an order number
+ * @param value - Trimmed cell value
+ * @returns Reason, or undefined when the value is usable
+ */
+function rejectReason(value: string): string | undefined {
+  if (value.length > MAX_ORDER_NUMBER_LENGTH) {
+    return `longer than ${MAX_ORDER_NUMBER_LENGTH} characters`;
+  }
+  if (EXPONENT_FORM.test(value)) {
+    return "number in exponent form (format the column as text)";
+  }
+  if (!VALID_TOKEN.test(value)) return "unexpected characters";
+  return undefined;
+}
+
+/**
+ * Take order numbers from one column
+ * Cells may hold several numbers separated like textarea input; empty cells
+ * are ignored.
+ * @param sheet - Parsed sheet
+ * @param column - Column index
+ * @returns Normalized order numbers and the rejected cells
+ */
+export function extractOrderColumn(
+  sheet: ImportedSheet,
+  column: number,
+): ColumnImport {
+  const accepted: string[] = [];
+  const rejected: RejectedRow[] = [];
+  const firstRow = sheet.hasHeader ? 2 : 1;
+
+  sheet.rows.forEach((row, index) => {
+    for (const value of normalizeOrderNumbers(row[column] ?? "")) {
+      const reason = rejectReason(value);
+      if (reason) {
+        rejected.push({ row: firstRow + index, value, reason });
+      } else {
+        accepted.push(value);
+      }
+    }
+  });
+
+  return {
+    orderNumbers: normalizeOrderNumbers(accepted.join("\n")),
+    rejected,
+  };
+}
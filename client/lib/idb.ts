@@ -0,0 +1,94 @@
+/**
+ * Minimal promise wrappers around IndexedDB
+ * One database for the whole app; each feature owns an object store
+ */
+
+const DB_NAME = "airwaybill";
+const DB_VERSION = 2;
+
+// Object store names
+export const ORDER_CACHE_STORE = "orderCache";
+export const PRINT_HISTORY_STORE = "printHistory";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB is usable (missing in private modes and tests)
+ * @returns true if IndexedDB can be opened
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Open (and upgrade if needed) the app database, reusing one connection
+ * @returns Promise with the open database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+
+        // Each step upgrades from the previous version
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(ORDER_CACHE_STORE, {
+            keyPath: "key",
+          });
+          store.createIndex("cachedAt", "cachedAt");
+        }
+
+        if (event.oldVersion < 2) {
+          const store = db.createObjectStore(PRINT_HISTORY_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          store.createIndex("createdAt", "createdAt");
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ * @param request - Pending IndexedDB request
+ * @returns Promise resolving with the request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ * @param tx - IndexedDB transaction
+ * @returns Promise resolving when the transaction completes
+ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
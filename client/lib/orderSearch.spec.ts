@@ -0,0 +1,91 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { ResolvedOrder, SearchResult } from "@shared/api";
+import { collectIdsPaged } from "./orderSearch";
+
+// In-memory stand-in for the order cache store
+const cacheEntries = vi.hoisted(
+  () => new Map<string, ResolvedOrder & { cachedAt: number }>(),
+);
+
+vi.mock("./idb", () => {
+  const store = {
+    get: (key: string) => cacheEntries.get(key),
+    put: (entry: ResolvedOrder & { key: string; cachedAt: number }) =>
+      cacheEntries.set(entry.key, entry),
+    count: () => cacheEntries.size,
+  };
+  return {
+    ORDER_CACHE_STORE: "orderCache",
+    isIndexedDbAvailable: () => true,
+    openDatabase: async () => ({
+      transaction: () => ({ objectStore: () => store }),
+    }),
+    requestToPromise: async <T>(value: T) => value,
+    transactionDone: async () => undefined,
+  };
+});
+
+/**
+ * Answer /api/orders/resolve with the given orders
+ */
+function mockResolve(orders: ResolvedOrder[]) {
+  const result: SearchResult = {
+    ids: orders.map((o) => o.id),
+    idsEncoded: orders.map((o) => o.id).join("%2C"),
+    notFound: [],
+    unrequested: [],
+    orders,
+    failedBatches: [],
+  };
+  const fetchMock = vi.fn(async () => Response.json(result));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("collectIdsPaged", () => {
+  afterEach(() => {
+    cacheEntries.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it("should use cached orders when no status is excluded", async () => {
+    cacheEntries.set("a1", {
+      key: "a1",
+      orderNumber: "A1",
+      id: 7,
+      status: "created",
+      cachedAt: Date.now(),
+    } as ResolvedOrder & { cachedAt: number });
+    const fetchMock = mockResolve([]);
+
+    const result = await collectIdsPaged("A1", "token");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.ids).toEqual([7]);
+    expect(result.cache).toEqual({ hits: 1, misses: 0, bypassed: false });
+  });
+
+  it("should re-resolve cached orders when a status filter is set", async () => {
+    cacheEntries.set("a1", {
+      key: "a1",
+      orderNumber: "A1",
+      id: 7,
+      status: "created",
+      cachedAt: Date.now(),
+    } as ResolvedOrder & { cachedAt: number });
+    const fetchMock = mockResolve([
+      { orderNumber: "A1", id: 7, status: "cancelled" },
+    ]);
+
+    const result = await collectIdsPaged("A1", "token", {
+      excludeStatuses: ["cancelled"],
+    });
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(result.ids).toEqual([]);
+    expect(result.skipped?.map((o) => o.id)).toEqual([7]);
+    expect(result.cache?.bypassed).toBe(true);
+    // The fresh status still replaces the cached one
+    expect(cacheEntries.get("a1")?.status).toBe("cancelled");
+  });
+});
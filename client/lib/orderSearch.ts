@@ -1,242 +1,349 @@
 /**
- * Comprehensive order search module for Shipox API
- * Handles large inputs with pagination, batching, and controlled concurrency
+ * Client-side order search module
+ * Resolves order numbers through the server (/api/orders/resolve), which
+ * performs the batched, paginated Shipox search. Resolved order_number -> id
+ * mappings are cached in IndexedDB so repeat searches skip known numbers.
  */
 
+import type {
+  ResolvedOrder,
+  ResolveOrdersRequest,
+  ResolveStreamEvent,
+  SearchProgress,
+  SearchResult,
+  SearchTypeOption,
+  SortMode,
+} from "@shared/api";
+import {
+  dedupePreserveOrder,
+  filterOrdersByStatus,
+  mergeResolvedOrders,
+  normalizeOrderNumbers,
+  orderNumberKey,
+  resolveSearchType,
+} from "@shared/orderNumbers";
+import {
+  isIndexedDbAvailable,
+  openDatabase,
+  ORDER_CACHE_STORE,
+  requestToPromise,
+  transactionDone,
+} from "./idb";
+
+export type {
+  FailedBatch,
+  OrderDetails,
+  ResolvedOrder,
+  SearchProgress,
+  SearchResult,
+  SearchStats,
+  SearchType,
+  SearchTypeOption,
+  SkippedOrder,
+  SortMode,
+  UnrequestedOrder,
+} from "@shared/api";
+export {
+  dedupePreserveOrder,
+  groupBySearchType,
+  normalizeOrderNumbers,
+  orderNumberKey,
+  reconcileOrderNumbers,
+  sortOrderItems,
+} from "@shared/orderNumbers";
+
 // Debug flag for development logging
 const DEBUG = false;
 
-// Types for order items - simplified based on actual API structure
-type OrderItem = {
-  id: number | string; // Required: the unique identifier we need
-  order_number?: string | number; // Optional: for matching against requested orders
-  [key: string]: any; // Allow any other fields the API might return
-};
+// Cache entries older than this are ignored and re-resolved
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 
-// API response structure
-type SearchResponse = {
-  data?: {
-    list: OrderItem[];
-    total?: number;
-  };
-  list?: OrderItem[];
-  total?: number;
-};
+// Maximum cached mappings; the oldest entries are evicted first
+const CACHE_MAX_ENTRIES = 20000;
 
-// Result type
-export interface SearchResult {
-  ids: number[];
-  idsEncoded: string;
-  notFound: string[];
-}
+// localStorage key used by the previous (never populated) cache
+const LEGACY_CACHE_KEY = "order_to_id_cache";
+
+// Stored shape of one cached mapping
+type CacheEntry = ResolvedOrder & {
+  key: string; // orderNumberKey(orderNumber)
+  cachedAt: number;
+};
 
 // Configuration options for collectIdsPaged
 export interface SearchOptions {
   batchSize?: number;
   concurrency?: number;
+  sortBy?: SortMode; // Default: "response" (API order, batch by batch)
+  searchType?: SearchTypeOption; // Default: "order_number"
+  excludeStatuses?: string[]; // Found orders in these statuses are skipped
+  useCache?: boolean; // Default: true
+  onProgress?: (progress: SearchProgress) => void; // Server batch progress
+  signal?: AbortSignal; // Cancels the search; rejects with SEARCH_ABORTED
+  pageTimeoutMs?: number; // Per Shipox page request (SEARCH_TIMEOUT_PAGE)
+  totalTimeoutMs?: number; // Whole search (SEARCH_TIMEOUT_TOTAL)
 }
 
 /**
- * Generic dedupe that preserves array order using Set
- * @param arr - Array of any type
- * @returns Array with duplicates removed, maintaining original order
+ * Look up cached mappings for the given order numbers
+ * @param orderNumbers - Normalized order numbers
+ * @returns Fresh (non-expired) cached orders keyed by orderNumberKey
  */
-export function dedupePreserveOrder<T>(arr: T[]): T[] {
-  const seen = new Set<T>();
-  const result: T[] = [];
-
-  for (const item of arr) {
-    if (!seen.has(item)) {
-      seen.add(item);
-      result.push(item);
+async function readCachedOrders(
+  orderNumbers: string[],
+): Promise<Map<string, ResolvedOrder>> {
+  const hits = new Map<string, ResolvedOrder>();
+  const db = await openDatabase();
+  const store = db
+    .transaction(ORDER_CACHE_STORE, "readonly")
+    .objectStore(ORDER_CACHE_STORE);
+  const now = Date.now();
+
+  const entries = await Promise.all(
+    orderNumbers.map((n) =>
+      requestToPromise<CacheEntry | undefined>(store.get(orderNumberKey(n))),
+    ),
+  );
+
+  entries.forEach((entry, index) => {
+    if (entry && now - entry.cachedAt < CACHE_TTL_MS) {
+      // Report the number as the user typed it this time
+      const { key, cachedAt, ...order } = entry;
+      hits.set(key, { ...order, orderNumber: orderNumbers[index] });
     }
-  }
+  });
 
-  return result;
+  return hits;
 }
 
 /**
- * Normalize order numbers input: split, trim, deduplicate, preserve order
- * Keep as strings to preserve leading zeros and treat numbers as strings
- * @param input - Raw textarea input with order numbers
- * @returns Array of normalized order number strings
+ * Store resolved mappings and evict the oldest entries above the size cap
+ * @param orders - Orders resolved by the server
  */
-export function normalizeOrderNumbers(input: string): string[] {
-  if (!input.trim()) return [];
+async function writeCachedOrders(orders: ResolvedOrder[]): Promise<void> {
+  if (orders.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(ORDER_CACHE_STORE, "readwrite");
+  const store = tx.objectStore(ORDER_CACHE_STORE);
+  const cachedAt = Date.now();
+
+  for (const order of orders) {
+    // Details are cached too, so status may be up to CACHE_TTL_MS old
+    const entry: CacheEntry = {
+      ...order,
+      key: orderNumberKey(order.orderNumber),
+      cachedAt,
+    };
+    store.put(entry);
+  }
 
-  // Split by commas, whitespace, or newlines
-  const numbers = input
-    .split(/[,\s]+/)
-    .map((s) => s.trim())
-    .filter(Boolean); // Remove empty strings
+  const count = await requestToPromise(store.count());
+  let excess = count - CACHE_MAX_ENTRIES;
+
+  if (excess > 0) {
+    const cursorRequest = store.index("cachedAt").openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  }
 
-  // Remove duplicates while preserving original order
-  return dedupePreserveOrder(numbers);
+  await transactionDone(tx);
 }
 
 /**
- * Search single batch with pagination support
- * @param orderNumbers - Array of order numbers for this batch
+ * Resolve order numbers through the server search endpoint
+ * @param orderNumbers - Normalized order numbers
  * @param token - Authorization token
- * @returns Promise with collected results from all pages
+ * @param opts - Options passed to the server
+ * @returns Promise with the server search result
  */
-async function searchBatchWithPagination(
+async function fetchResolvedOrders(
   orderNumbers: string[],
   token: string,
-): Promise<{ items: OrderItem[]; requestedSet: Set<string> }> {
-  const API_URL = "https://api-gateway.shipox.com/api/v2/admin/orders";
-  const requestedSet = new Set(orderNumbers.map((n) => String(n)));
-  let allItems: OrderItem[] = [];
-  let page = 0;
-  let totalCollected = 0;
-  let apiTotal: number | undefined;
+  opts: SearchOptions,
+): Promise<SearchResult> {
+  const {
+    batchSize,
+    concurrency,
+    sortBy,
+    searchType,
+    pageTimeoutMs,
+    totalTimeoutMs,
+    onProgress,
+    signal,
+  } = opts;
+  const body: ResolveOrdersRequest = {
+    orderNumbers,
+    batchSize,
+    concurrency,
+    sortBy,
+    searchType,
+    pageTimeoutMs,
+    totalTimeoutMs,
+  };
 
-  if (DEBUG) {
-    console.log(
-      `🔍 Starting batch search for ${orderNumbers.length} order numbers`,
-    );
-  }
+  try {
+    const response = await fetch("/api/orders/resolve", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Auth-Token": token,
+        // Progress events are only sent as an NDJSON stream
+        accept: onProgress ? "application/x-ndjson" : "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
 
-  // Create abort controller with 30s timeout per page
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000);
+    // Handle response codes
+    if (response.status === 401) {
+      throw new Error("UNAUTHORIZED_401");
+    }
 
-  try {
-    while (true) {
-      // Build query parameters
-      const params = new URLSearchParams({
-        size: String(Math.min(orderNumbers.length, 500)),
-        page: String(page),
-        search: orderNumbers.join(","), // CSV - URLSearchParams will encode commas as %2C
-        search_type: "order_number",
-        use_solr: "true",
-      });
-
-      const url = `${API_URL}?${params.toString()}`;
-
-      if (DEBUG) {
-        console.log(`📄 Fetching page ${page} for batch...`);
-      }
-
-      // Make HTTP request
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          accept: "application/json",
-          marketplace_id: "307345429",
-        },
-        signal: controller.signal,
-      });
-
-      // Handle response codes
-      if (response.status === 401) {
-        throw new Error("UNAUTHORIZED_401");
-      }
-
-      if (!response.ok) {
-        throw new Error(`SEARCH_FAILED_${response.status}`);
-      }
-
-      const data: SearchResponse = await response.json();
-
-      // Extract list and total from response (handle both formats)
-      const list = data?.data?.list ?? data?.list ?? [];
-      const total = data?.data?.total ?? data?.total;
-
-      if (apiTotal === undefined && total !== undefined) {
-        apiTotal = total;
-      }
-
-      if (DEBUG) {
-        console.log(
-          `📦 Page ${page}: ${list.length} items, total: ${total}, collected: ${totalCollected}`,
-        );
-
-        // Debug first item structure to understand API response format
-        if (list.length > 0 && page === 0) {
-          const firstItem = list[0];
-          console.log(`🔍 First API item structure:`, {
-            id: firstItem.id,
-            order_number: firstItem.order_number,
-            availableFields: Object.keys(firstItem).slice(0, 10), // Show first 10 fields
-          });
-        }
-      }
-
-      // Add items to collection
-      allItems = allItems.concat(list);
-      totalCollected += list.length;
-
-      // Stop conditions:
-      // 1. Empty page (no more results)
-      // 2. We've collected >= total (if available)
-      // 3. Current page returned less than requested size (last page)
-      if (list.length === 0) {
-        if (DEBUG) console.log(`✅ Stopping: empty page`);
-        break;
-      }
-
-      if (apiTotal !== undefined && totalCollected >= apiTotal) {
-        if (DEBUG)
-          console.log(
-            `✅ Stopping: collected ${totalCollected} >= total ${apiTotal}`,
-          );
-        break;
-      }
-
-      if (list.length < Math.min(orderNumbers.length, 500)) {
-        if (DEBUG)
-          console.log(
-            `✅ Stopping: partial page (${list.length} < ${Math.min(orderNumbers.length, 500)})`,
-          );
-        break;
-      }
-
-      page++;
+    if (!response.ok) {
+      // The server passes Shipox error codes (e.g. SEARCH_FAILED_503) through
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `SEARCH_FAILED_${response.status}`);
     }
-  } finally {
-    clearTimeout(timeoutId);
-  }
 
-  if (DEBUG) {
-    console.log(`🎯 Batch complete: ${allItems.length} total items collected`);
-  }
+    if (onProgress && response.body) {
+      return await readResolveStream(response.body, onProgress);
+    }
 
-  return { items: allItems, requestedSet };
+    return await response.json();
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error("SEARCH_ABORTED");
+    }
+    throw error;
+  }
 }
 
 /**
- * Process batch results: extract all IDs from list
- * @param items - All collected items from API
- * @param requestedSet - Set of requested order numbers (unused now, kept for compatibility)
- * @returns Processed results with IDs only
+ * Read the NDJSON event stream of /api/orders/resolve
+ * @param body - Response body stream
+ * @param onProgress - Called for every progress event
+ * @returns Promise with the final search result
  */
-function processBatchResults(
-  items: OrderItem[],
-  requestedSet: Set<string>,
-): { ids: number[] } {
-  if (DEBUG) {
-    console.log(`📦 Processing ${items.length} items from API response`);
-  }
+async function readResolveStream(
+  body: ReadableStream<Uint8Array>,
+  onProgress: (progress: SearchProgress) => void,
+): Promise<SearchResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
 
-  // Extract all IDs from the list (no filtering needed, just take all id fields)
-  const ids = items
-    .map((item) => Number(item.id))
-    .filter((n) => Number.isFinite(n)); // Only filter out invalid numbers
+  const handleLine = (line: string): SearchResult | undefined => {
+    if (!line.trim()) return undefined;
+    const event: ResolveStreamEvent = JSON.parse(line);
 
-  if (DEBUG) {
-    console.log(`🔢 Extracted ${ids.length} valid IDs from response`);
+    if (event.type === "progress") {
+      onProgress(event.progress);
+      return undefined;
+    }
+
+    if (event.type === "error") {
+      throw new Error(event.error);
+    }
+
+    return event.result;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const result = handleLine(line);
+      if (result) return result;
+    }
+
+    if (done) {
+      const result = handleLine(buffered);
+      if (result) return result;
+      throw new Error("SEARCH_STREAM_INCOMPLETE");
+    }
   }
+}
+
+/**
+ * Result with nothing found, used for empty input and all-cached searches
+ */
+export function emptySearchResult(): SearchResult {
+  return {
+    ids: [],
+    idsEncoded: "",
+    notFound: [],
+    unrequested: [],
+    orders: [],
+    failedBatches: [],
+  };
+}
 
-  return { ids };
+/**
+ * Merge a partial search (cache hits, a retried batch) into a result
+ * Matched orders are combined in the requested order (see
+ * mergeResolvedOrders); unrequested IDs stay after the requested ones.
+ * @param base - Result to merge into
+ * @param extra - Result for additional order numbers
+ * @param orderNumbers - All normalized order numbers, in typed order
+ * @param sortBy - Sort mode of the search
+ * @returns Combined result (cache usage and stats are taken from `base`)
+ */
+export function mergeSearchResults(
+  base: SearchResult,
+  extra: SearchResult,
+  orderNumbers: string[],
+  sortBy: SortMode,
+): SearchResult {
+  const orders = mergeResolvedOrders(
+    base.orders,
+    extra.orders,
+    orderNumbers,
+    sortBy,
+  );
+  const orderIds = new Set(orders.map((o) => o.id));
+  const ids = [
+    ...orders.map((o) => o.id),
+    ...[...base.ids, ...extra.ids].filter((id) => !orderIds.has(id)),
+  ];
+
+  const uniqueIds = dedupePreserveOrder(ids);
+  const seenUnrequested = new Set<number>();
+
+  return {
+    ids: uniqueIds,
+    idsEncoded: uniqueIds.map(String).join("%2C"),
+    notFound: dedupePreserveOrder([...base.notFound, ...extra.notFound]),
+    unrequested: [...base.unrequested, ...extra.unrequested].filter((u) => {
+      if (seenUnrequested.has(u.id)) return false;
+      seenUnrequested.add(u.id);
+      return true;
+    }),
+    orders,
+    failedBatches: [...base.failedBatches, ...extra.failedBatches],
+    skipped: [...(base.skipped ?? []), ...(extra.skipped ?? [])],
+    cache: base.cache,
+    stats: base.stats,
+  };
 }
 
 /**
- * Main function: search with pagination, batching, and controlled concurrency
+ * Main function: resolve order numbers to IDs via the server search endpoint
+ * Cached numbers are skipped and merged back in the requested order; field
+ * sorts use the cached details. Status filters bypass cache reads, since a
+ * cached status may be up to CACHE_TTL_MS old, but still refresh the cache.
  * @param rawInput - Raw textarea input with order numbers
  * @param token - Authorization token
- * @param opts - Options for batch size and concurrency
+ * @param opts - Options for batch size, concurrency, sorting and caching
  * @returns Promise with comprehensive search results
  */
 export async function collectIdsPaged(
@@ -244,133 +351,95 @@ export async function collectIdsPaged(
   token: string,
   opts: SearchOptions = {},
 ): Promise<SearchResult> {
-  const { batchSize = 450, concurrency = 6 } = opts;
-
-  // Step 1: Normalize input
+  const {
+    sortBy = "response",
+    searchType = "order_number",
+    excludeStatuses = [],
+    useCache = true,
+  } = opts;
+
+  // Normalize input locally so empty searches never hit the network
   const orderNumbers = normalizeOrderNumbers(rawInput);
 
   if (orderNumbers.length === 0) {
-    return {
-      ids: [],
-      idsEncoded: "",
-      notFound: [],
-    };
-  }
-
-  if (DEBUG) {
-    console.log(
-      `🚀 Starting collectIdsPaged for ${orderNumbers.length} order numbers`,
-    );
-    console.log(
-      `⚙️ Config: batchSize=${batchSize}, concurrency=${concurrency}`,
-    );
+    return emptySearchResult();
   }
 
-  // Step 2: Split into batches to avoid URL length issues
-  const batches: string[][] = [];
-  for (let i = 0; i < orderNumbers.length; i += batchSize) {
-    batches.push(orderNumbers.slice(i, i + batchSize));
-  }
-
-  if (DEBUG) {
-    console.log(`📦 Split into ${batches.length} batches`);
-  }
-
-  // Step 3: Process batches with controlled concurrency
-  let allIds: number[] = [];
-  let allBatchRequests: string[] = []; // Track what we actually requested
-  let allAPIResponses: OrderItem[] = []; // Track what API returned
-
-  // Process batches in chunks to control concurrency
-  for (let i = 0; i < batches.length; i += concurrency) {
-    const batchChunk = batches.slice(i, i + concurrency);
-
-    if (DEBUG) {
-      console.log(
-        `🔄 Processing batch chunk ${Math.floor(i / concurrency) + 1}/${Math.ceil(batches.length / concurrency)}`,
-      );
-    }
+  const cacheUsable = useCache && isIndexedDbAvailable();
 
-    // Process this chunk of batches in parallel
-    const chunkPromises = batchChunk.map(async (batch) => {
-      const { items, requestedSet } = await searchBatchWithPagination(
-        batch,
-        token,
-      );
-      // Extract IDs from all returned items
-      const { ids } = processBatchResults(items, requestedSet);
-
-      return {
-        ids,
-        items,
-        requestedBatch: batch,
-      };
-    });
+  // Only order numbers map to a single order; references and phones can
+  // match several, so they always go to the server
+  const isOrderNumber = (n: string) =>
+    resolveSearchType(n, searchType) === "order_number";
 
-    const chunkResults = await Promise.all(chunkPromises);
+  // An order cancelled since it was cached must not slip past the filter
+  const cacheReadable = cacheUsable && excludeStatuses.length === 0;
 
-    // Accumulate results
-    for (const result of chunkResults) {
-      allIds = allIds.concat(result.ids);
-      allAPIResponses = allAPIResponses.concat(result.items);
-      allBatchRequests = allBatchRequests.concat(result.requestedBatch);
+  let hits = new Map<string, ResolvedOrder>();
+  if (cacheReadable) {
+    try {
+      hits = await readCachedOrders(orderNumbers.filter(isOrderNumber));
+    } catch (error) {
+      console.warn("Order cache read failed, searching everything:", error);
     }
   }
 
-  // Step 4: Deduplicate IDs while preserving order
-  const uniqueIds = dedupePreserveOrder(allIds);
-
-  // Step 5: Create encoded string for PDF (strictly no spaces, %2C separator)
-  const idsEncoded = uniqueIds.map(String).join("%2C");
-
-  // Step 6: Simplified "not found" logic
-  // Since we take ALL IDs from API response regardless of order number matching,
-  // we consider the search successful if we got any results back
-  const notFound: string[] = [];
-
-  // Only mark as "not found" if we got no results at all for this search
-  if (uniqueIds.length === 0 && orderNumbers.length > 0) {
-    // If no IDs found, mark all requested numbers as not found
-    notFound.push(...orderNumbers);
+  if (opts.signal?.aborted) {
+    throw new Error("SEARCH_ABORTED");
   }
-  // Otherwise, if we got IDs back, the search was successful (even if order numbers don't match)
+
+  const misses = orderNumbers.filter((n) => !hits.has(orderNumberKey(n)));
 
   if (DEBUG) {
     console.log(
-      `🎯 Final results: ${uniqueIds.length} unique IDs found, ${notFound.length} not found`,
-    );
-    console.log(
-      `📋 Encoded IDs: ${idsEncoded.substring(0, 100)}${idsEncoded.length > 100 ? "..." : ""}`,
+      `🚀 Resolving ${misses.length} order numbers via /api/orders/resolve (${hits.size} cached)`,
     );
+  }
 
-    // Debug info
-    console.log(`🔍 Debug info:`);
-    console.log(`  Requested order numbers: ${orderNumbers.length}`);
-    console.log(`  API returned items: ${allAPIResponses.length}`);
-    console.log(`  Extracted unique IDs: ${uniqueIds.length}`);
-
-    if (allAPIResponses.length > 0) {
-      const firstItem = allAPIResponses[0];
-      console.log(`  Sample API item:`, {
-        id: firstItem.id,
-        order_number: firstItem.order_number,
-      });
-    }
+  const fresh =
+    misses.length > 0
+      ? await fetchResolvedOrders(misses, token, opts)
+      : emptySearchResult();
 
-    if (notFound.length > 0) {
-      console.log(`❌ Search failed: no results returned from API`);
-    } else {
-      console.log(
-        `✅ Search successful: ${uniqueIds.length} IDs extracted from API response`,
+  if (cacheUsable) {
+    try {
+      await writeCachedOrders(
+        fresh.orders.filter((o) => isOrderNumber(o.orderNumber)),
       );
+    } catch (error) {
+      console.warn("Order cache write failed:", error);
     }
   }
 
-  return {
-    ids: uniqueIds,
-    idsEncoded,
-    notFound,
+  const cached = [...hits.values()];
+  const merged =
+    cached.length > 0
+      ? mergeSearchResults(
+          fresh,
+          {
+            ...emptySearchResult(),
+            ids: cached.map((o) => o.id),
+            orders: cached,
+          },
+          orderNumbers,
+          sortBy,
+        )
+      : fresh;
+
+  const result = filterOrdersByStatus(merged, excludeStatuses);
+  result.cache = {
+    hits: hits.size,
+    misses: misses.length,
+    bypassed: !cacheReadable,
   };
+
+  if (DEBUG) {
+    console.log(
+      `🎯 Final results: ${result.ids.length} unique IDs found, ${result.notFound.length} not found`,
+    );
+  }
+
+  return result;
 }
 
 /**
@@ -389,30 +458,47 @@ export async function searchAndExtractIdsOnce(
 }
 
 /**
- * Utility functions for cache management (kept for compatibility)
+ * Remove every cached order_number -> id mapping
  */
-export function clearOrderCache(): void {
+export async function clearOrderCache(): Promise<void> {
   try {
-    localStorage.removeItem("order_to_id_cache");
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+
+    if (isIndexedDbAvailable()) {
+      const db = await openDatabase();
+      const tx = db.transaction(ORDER_CACHE_STORE, "readwrite");
+      tx.objectStore(ORDER_CACHE_STORE).clear();
+      await transactionDone(tx);
+    }
+
     if (DEBUG) console.log("🗑️ Order cache cleared");
   } catch (error) {
     console.warn("Failed to clear order cache:", error);
   }
 }
 
-export function getCacheStats(): { entries: number; size: string } {
+/**
+ * Count cached mappings and estimate their storage size
+ * @returns Entry count and approximate size
+ */
+export async function getCacheStats(): Promise<{
+  entries: number;
+  size: string;
+}> {
   try {
-    const cached = localStorage.getItem("order_to_id_cache");
-    if (!cached) {
+    if (!isIndexedDbAvailable()) {
       return { entries: 0, size: "0 KB" };
     }
 
-    const cache = JSON.parse(cached);
-    const entries = Object.keys(cache).length;
-    const sizeKB = Math.round((cached.length * 2) / 1024);
+    const db = await openDatabase();
+    const store = db
+      .transaction(ORDER_CACHE_STORE, "readonly")
+      .objectStore(ORDER_CACHE_STORE);
+    const entries = await requestToPromise<CacheEntry[]>(store.getAll());
+    const sizeKB = Math.round((JSON.stringify(entries).length * 2) / 1024);
 
     return {
-      entries,
+      entries: entries.length,
       size: `${sizeKB} KB`,
     };
   } catch (error) {
@@ -3,52 +3,51 @@
  * Shows how to use the clean and simple API
  */
 
-import React, { useState } from 'react';
-import { searchAndExtractIdsOnce, normalizeOrderNumbers } from './orderSearch';
+import React, { useState } from "react";
+import { searchAndExtractIdsOnce, normalizeOrderNumbers } from "./orderSearch";
 
 export function OrderSearchExample() {
-  const [orderInput, setOrderInput] = useState('');
-  const [token, setToken] = useState('');
+  const [orderInput, setOrderInput] = useState("");
+  const [token, setToken] = useState("");
   const [results, setResults] = useState<{
     ids: number[];
     idsEncoded: string;
     notFound: string[];
   } | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState("");
 
   const handleSearch = async () => {
     if (!token || !orderInput.trim()) {
-      setError('Please provide token and order numbers');
+      setError("Please provide token and order numbers");
       return;
     }
 
     setLoading(true);
-    setError('');
+    setError("");
     setResults(null);
 
     try {
       // Call the main search function
       const result = await searchAndExtractIdsOnce(orderInput, token);
       setResults(result);
-      
-      console.log('Search completed:', {
+
+      console.log("Search completed:", {
         foundIds: result.ids.length,
         notFound: result.notFound.length,
-        idsEncoded: result.idsEncoded
+        idsEncoded: result.idsEncoded,
       });
-      
     } catch (err) {
       if (err instanceof Error) {
-        if (err.message === 'UNAUTHORIZED_401') {
-          setError('Authentication failed - please login again');
-        } else if (err.message.startsWith('SEARCH_FAILED_')) {
+        if (err.message === "UNAUTHORIZED_401") {
+          setError("Authentication failed - please login again");
+        } else if (err.message.startsWith("SEARCH_FAILED_")) {
           setError(`Search failed: ${err.message}`);
         } else {
           setError(err.message);
         }
       } else {
-        setError('Unknown error occurred');
+        setError("Unknown error occurred");
       }
     } finally {
       setLoading(false);
@@ -61,7 +60,7 @@ export function OrderSearchExample() {
   return (
     <div className="p-6 max-w-2xl mx-auto space-y-4">
       <h2 className="text-xl font-bold">Order Search Example</h2>
-      
+
       {/* Token input */}
       <div>
         <label className="block text-sm font-medium mb-1">
@@ -101,7 +100,7 @@ export function OrderSearchExample() {
         disabled={loading || !token || !orderInput.trim()}
         className="w-full bg-blue-600 text-white p-2 rounded disabled:opacity-50"
       >
-        {loading ? 'Searching...' : 'Search Orders'}
+        {loading ? "Searching..." : "Search Orders"}
       </button>
 
       {/* Error display */}
@@ -115,27 +114,34 @@ export function OrderSearchExample() {
       {results && (
         <div className="space-y-3">
           <h3 className="font-medium">Results:</h3>
-          
+
           <div className="p-3 bg-green-100 border border-green-300 rounded">
-            <p><strong>Found IDs:</strong> {results.ids.length}</p>
-            <p><strong>IDs for PDF:</strong></p>
+            <p>
+              <strong>Found IDs:</strong> {results.ids.length}
+            </p>
+            <p>
+              <strong>IDs for PDF:</strong>
+            </p>
             <code className="block bg-white p-2 mt-1 rounded text-sm break-all">
-              {results.idsEncoded || '(none)'}
+              {results.idsEncoded || "(none)"}
             </code>
           </div>
 
           {results.notFound.length > 0 && (
             <div className="p-3 bg-yellow-100 border border-yellow-300 rounded">
-              <p><strong>Not Found ({results.notFound.length}):</strong></p>
-              <div className="text-sm mt-1">
-                {results.notFound.join(', ')}
-              </div>
+              <p>
+                <strong>Not Found ({results.notFound.length}):</strong>
+              </p>
+              <div className="text-sm mt-1">{results.notFound.join(", ")}</div>
             </div>
           )}
 
           <div className="text-xs text-gray-500">
             <p>Next step: Use idsEncoded in PDF generation API</p>
-            <p>URL: https://admin.fargo.uz/file/order/airwaybill_mini?ids={results.idsEncoded}</p>
+            <p>
+              URL: https://admin.fargo.uz/file/order/airwaybill_mini?ids=
+              {results.idsEncoded}
+            </p>
           </div>
         </div>
       )}
@@ -151,20 +157,24 @@ export async function exampleUsage() {
   const bearerToken = "your-jwt-token-here";
 
   try {
-    const result = await searchAndExtractIdsOnce(orderNumbersFromTextarea, bearerToken);
-    
+    const result = await searchAndExtractIdsOnce(
+      orderNumbersFromTextarea,
+      bearerToken,
+    );
+
     console.log(`Found ${result.ids.length} orders`);
-    console.log(`PDF URL: https://admin.fargo.uz/file/order/airwaybill_mini?ids=${result.idsEncoded}`);
-    console.log(`Not found: ${result.notFound.join(', ')}`);
-    
+    console.log(
+      `PDF URL: https://admin.fargo.uz/file/order/airwaybill_mini?ids=${result.idsEncoded}`,
+    );
+    console.log(`Not found: ${result.notFound.join(", ")}`);
+
     return result;
-    
   } catch (error) {
-    if (error instanceof Error && error.message === 'UNAUTHORIZED_401') {
+    if (error instanceof Error && error.message === "UNAUTHORIZED_401") {
       // Handle re-authentication
-      console.log('Need to login again');
+      console.log("Need to login again");
     } else {
-      console.error('Search failed:', error);
+      console.error("Search failed:", error);
     }
     throw error;
   }
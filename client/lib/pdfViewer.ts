@@ -3,9 +3,227 @@
  * Handles both direct URL access and server proxy approaches
  */
 
+import type {
+  AgentPrinter,
+  AgentPrintResponse,
+  PdfChunkFailure,
+  PdfPageCountWarning,
+  PdfRenderOptions,
+  PdfRequestBody,
+  PdfZipOrder,
+  ZplLabelOrder,
+} from "@shared/api";
+import { checkPageCounts } from "@shared/pdfPages";
+
 // Configuration flag - set based on deployment environment
 export const SAME_ORIGIN = false; // Set to true if frontend is served from admin.fargo.uz
 
+/**
+ * Outcome of opening a PDF; chunks the proxy could not fetch are listed
+ * so the caller can tell the user which labels are missing
+ */
+export interface PdfOpenResult {
+  failedChunks: PdfChunkFailure[];
+  pageCount?: number; // From X-Page-Count; unknown for direct (same-origin) opens
+  expectedCount?: number; // From X-Expected-Count: IDs requested
+  pageWarning?: PdfPageCountWarning; // Upstream returned fewer pages than IDs
+  printedVia?: "agent" | "tab";
+  agentError?: string; // Why the print agent was skipped in favour of a tab
+}
+
+/**
+ * Where a downloaded PDF goes: a new browser tab (print manually) or the
+ * local print agent (server/print-agent.ts) for silent printing
+ */
+export type PrintTarget =
+  | { kind: "tab" }
+  | { kind: "agent"; printer?: string; copies: number };
+
+// Local print agent; see server/print-agent.ts
+export const PRINT_AGENT_URL =
+  import.meta.env.VITE_PRINT_AGENT_URL || "http://127.0.0.1:17777";
+
+/**
+ * List the printers known to the local print agent
+ * @returns Printers, default first
+ * @throws Error("PRINT_AGENT_UNAVAILABLE") when the agent is not running
+ */
+export async function listAgentPrinters(): Promise<AgentPrinter[]> {
+  let response: Response;
+  try {
+    response = await fetch(`${PRINT_AGENT_URL}/printers`);
+  } catch {
+    throw new Error("PRINT_AGENT_UNAVAILABLE");
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `PRINT_AGENT_FAILED_${response.status}`);
+  }
+
+  const printers: AgentPrinter[] = await response.json();
+  return printers.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Send a PDF to the local print agent
+ * @param blob - Validated PDF
+ * @param target - Printer (system default when omitted) and copies
+ * @returns Job reported by the agent
+ */
+async function sendToPrintAgent(
+  blob: Blob,
+  target: Extract<PrintTarget, { kind: "agent" }>,
+): Promise<AgentPrintResponse> {
+  const params = new URLSearchParams({ copies: String(target.copies) });
+  if (target.printer) params.set("printer", target.printer);
+
+  let response: Response;
+  try {
+    response = await fetch(`${PRINT_AGENT_URL}/print?${params}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf" },
+      body: blob,
+    });
+  } catch {
+    throw new Error("PRINT_AGENT_UNAVAILABLE");
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `PRINT_AGENT_FAILED_${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Parse the X-Pdf-Failed-Chunks header set by the server proxy
+ * @param response - Response from /api/pdf
+ * @returns Failed chunks, or an empty array when the header is absent
+ */
+function readFailedChunks(response: Response): PdfChunkFailure[] {
+  const header = response.headers.get("X-Pdf-Failed-Chunks");
+  if (!header) return [];
+
+  try {
+    const parsed = JSON.parse(header);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    console.warn("⚠️ Could not parse X-Pdf-Failed-Chunks header");
+    return [];
+  }
+}
+
+/**
+ * Read the X-Page-Count header set by the server proxy
+ * @param response - Response from /api/pdf
+ * @returns Page count, or undefined when the header is absent
+ */
+function readPageCount(response: Response): number | undefined {
+  const count = Number(response.headers.get("X-Page-Count"));
+  return Number.isInteger(count) && count > 0 ? count : undefined;
+}
+
+/**
+ * Read the page-count headers set by the server proxy
+ * @param response - Response from /api/pdf
+ * @returns Page count, requested ID count and the mismatch warning, if any
+ */
+function readPageCheck(
+  response: Response,
+): Pick<PdfOpenResult, "pageCount" | "expectedCount" | "pageWarning"> {
+  const expected = Number(response.headers.get("X-Expected-Count"));
+  const header = response.headers.get("X-Pdf-Warning");
+  let pageWarning: PdfPageCountWarning | undefined;
+
+  if (header) {
+    try {
+      pageWarning = JSON.parse(header);
+    } catch {
+      console.warn("⚠️ Could not parse X-Pdf-Warning header");
+    }
+  }
+
+  return {
+    pageCount: readPageCount(response),
+    expectedCount:
+      Number.isInteger(expected) && expected > 0 ? expected : undefined,
+    pageWarning,
+  };
+}
+
+/**
+ * Page check for streamed responses (X-Pdf-Streamed), which carry no
+ * X-Page-Count because the server sends the PDF before it has all of it
+ * pdf-lib is loaded on demand to keep it out of the main bundle.
+ * @param response - Response from /api/pdf
+ * @param blob - Its body
+ * @param ids - Requested Shipox IDs
+ * @returns Page check, counted in the browser when the server streamed
+ */
+async function checkPages(
+  response: Response,
+  blob: Blob,
+  ids: number[],
+): Promise<Pick<PdfOpenResult, "pageCount" | "expectedCount" | "pageWarning">> {
+  const check = readPageCheck(response);
+  if (!response.headers.get("X-Pdf-Streamed") || check.pageCount) return check;
+
+  let pages: number | null = null;
+  try {
+    const { PDFDocument } = await import("pdf-lib");
+    const doc = await PDFDocument.load(await blob.arrayBuffer(), {
+      ignoreEncryption: true,
+    });
+    pages = doc.getPageCount();
+  } catch (error) {
+    console.warn("⚠️ Could not count pages of streamed PDF:", error);
+  }
+
+  return {
+    pageCount: pages ?? undefined,
+    expectedCount: ids.length,
+    pageWarning: checkPageCounts([{ index: 0, ids: ids.map(String), pages }]),
+  };
+}
+
+/**
+ * Convert the %2C-joined ID string used across the UI into numeric IDs
+ * @param idsEncoded - URL-encoded comma-separated IDs (e.g., "123%2C456")
+ * @returns Array of numeric IDs, invalid entries dropped
+ */
+export function decodeIds(idsEncoded: string): number[] {
+  return idsEncoded
+    .split(/%2C|,/i)
+    .map((id) => Number(id))
+    .filter((id) => Number.isInteger(id) && id > 0);
+}
+
+/**
+ * Request a PDF from the server proxy, sending IDs in a JSON body
+ * @param body - IDs and optional PDF settings
+ * @param idToken - JWT token for authentication
+ * @param wBh - Optional w-bh cookie value
+ * @returns Raw proxy response
+ */
+async function fetchPdfViaProxy(
+  body: PdfRequestBody,
+  idToken: string,
+  wBh?: string,
+): Promise<Response> {
+  return fetch("/api/pdf", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Auth-Token": idToken,
+      ...(wBh && { "X-BH": wBh, "X-W-BH": wBh }), // Send w-bh via multiple header names for compatibility
+      Accept: "application/pdf",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
 /**
  * Sets auth cookie for same-origin PDF access
  * Only works when frontend is served from admin.fargo.uz domain
@@ -32,21 +250,20 @@ export function openPdfInNewTabDirect(idsEncoded: string): void {
  * @param idsEncoded - URL-encoded comma-separated IDs (already encoded as id1%2Cid2%2C...)
  * @param idToken - JWT token for authentication
  * @param wBh - Optional w-bh cookie value (can be omitted if server reads from env)
+ * @param render - Layout, stamping and cover page options
+ * @param target - New tab (default) or the local print agent
  */
 export async function openPdfInNewTabViaProxy(
   idsEncoded: string,
   idToken: string,
   wBh?: string,
-): Promise<void> {
-  // Fetch PDF through our hardened server proxy
-  // IMPORTANT: idsEncoded is already properly encoded, do NOT re-encode with encodeURIComponent
-  const response = await fetch(`/api/pdf?ids=${idsEncoded}`, {
-    headers: {
-      "X-Auth-Token": idToken,
-      ...(wBh && { "X-BH": wBh, "X-W-BH": wBh }), // Send w-bh via multiple header names for compatibility
-      Accept: "application/pdf",
-    },
-  });
+  render: PdfRenderOptions = {},
+  target: PrintTarget = { kind: "tab" },
+): Promise<PdfOpenResult> {
+  // Fetch PDF through our hardened server proxy (IDs travel in a JSON body,
+  // so no URL length limits or comma encoding to worry about)
+  const ids = decodeIds(idsEncoded);
+  const response = await fetchPdfViaProxy({ ids, ...render }, idToken, wBh);
 
   // Inspect debug headers (visible in DevTools → Network → Response Headers)
   console.log("🔍 PDF Debug Info:");
@@ -56,8 +273,11 @@ export async function openPdfInNewTabViaProxy(
     "  X-Dbg-Upstream-Status:",
     response.headers.get("X-Dbg-Upstream-Status"),
   );
+  // Streamed responses have no totals yet; the size is logged below
   console.log("  X-Dbg-Bytes:", response.headers.get("X-Dbg-Bytes"));
   console.log("  X-Dbg-Time:", response.headers.get("X-Dbg-Time"));
+  console.log("  X-Dbg-Chunks:", response.headers.get("X-Dbg-Chunks"));
+  console.log("  X-Pdf-Streamed:", response.headers.get("X-Pdf-Streamed"));
 
   // Handle authentication errors
   if (response.status === 401) {
@@ -71,6 +291,9 @@ export async function openPdfInNewTabViaProxy(
 
   // Get PDF as blob
   const blob = await response.blob();
+  if (response.headers.get("X-Pdf-Streamed")) {
+    console.log("  Streamed bytes:", blob.size);
+  }
 
   // Check for empty or invalid PDF
   if (blob.size < 1000) {
@@ -92,6 +315,26 @@ export async function openPdfInNewTabViaProxy(
     );
   }
 
+  const result: PdfOpenResult = {
+    failedChunks: readFailedChunks(response),
+    ...(await checkPages(response, blob, ids)),
+  };
+
+  // Silent printing; an unreachable or failing agent falls back to a tab
+  let agentError: string | undefined;
+  if (target.kind === "agent") {
+    try {
+      const job = await sendToPrintAgent(blob, target);
+      console.log(
+        `🖨️ Sent to print agent: ${job.printer || "default printer"} x${job.copies} (${job.jobId})`,
+      );
+      return { ...result, printedVia: "agent" };
+    } catch (error) {
+      agentError = error instanceof Error ? error.message : String(error);
+      console.warn("⚠️ Print agent failed, opening a new tab:", agentError);
+    }
+  }
+
   // Create blob URL for viewing
   const blobUrl = URL.createObjectURL(blob);
 
@@ -102,6 +345,8 @@ export async function openPdfInNewTabViaProxy(
   setTimeout(() => {
     URL.revokeObjectURL(blobUrl);
   }, 60000);
+
+  return { ...result, printedVia: "tab", agentError };
 }
 
 /**
@@ -109,11 +354,13 @@ export async function openPdfInNewTabViaProxy(
  * Opens blank tab immediately, then loads PDF content
  * @param idsEncoded - URL-encoded comma-separated IDs
  * @param idToken - JWT token for authentication
+ * @param render - Layout, stamping and cover page options
  */
 export async function openPdfInNewTabSafariFallback(
   idsEncoded: string,
   idToken: string,
-): Promise<void> {
+  render: PdfRenderOptions = {},
+): Promise<PdfOpenResult> {
   // Open blank tab immediately (before any async operations)
   const newWindow = window.open("about:blank", "_blank", "noopener");
 
@@ -127,23 +374,19 @@ export async function openPdfInNewTabSafariFallback(
       setAuthCookie(idToken);
       const url = `https://admin.fargo.uz/file/order/airwaybill_mini?ids=${idsEncoded}`;
       newWindow.location.href = url;
+      return { failedChunks: [] };
     } else {
       // Cross-origin: fetch via proxy and load blob
-      // Note: idsEncoded is already properly encoded, do NOT encode again
       const wBhFromCookie = document.cookie
         .split("; ")
         .find((row) => row.startsWith("w-bh="))
         ?.split("=")[1];
-      const response = await fetch(`/api/pdf?ids=${idsEncoded}`, {
-        headers: {
-          "X-Auth-Token": idToken,
-          ...(wBhFromCookie && {
-            "X-BH": wBhFromCookie,
-            "X-W-BH": wBhFromCookie,
-          }),
-          Accept: "application/pdf",
-        },
-      });
+      const ids = decodeIds(idsEncoded);
+      const response = await fetchPdfViaProxy(
+        { ids, ...render },
+        idToken,
+        wBhFromCookie,
+      );
 
       // Log debug info for Safari fallback
       console.log("🍎 Safari Fallback Debug:");
@@ -151,7 +394,11 @@ export async function openPdfInNewTabSafariFallback(
         "  X-Dbg-Upstream-Status:",
         response.headers.get("X-Dbg-Upstream-Status"),
       );
-      console.log("  X-Dbg-Bytes:", response.headers.get("X-Dbg-Bytes"));
+      console.log(
+        "  X-Dbg-Bytes:",
+        response.headers.get("X-Dbg-Bytes") ??
+          (response.headers.get("X-Pdf-Streamed") ? "(streamed)" : null),
+      );
 
       if (response.status === 401) {
         newWindow.close();
@@ -172,6 +419,11 @@ export async function openPdfInNewTabSafariFallback(
       setTimeout(() => {
         URL.revokeObjectURL(blobUrl);
       }, 60000);
+
+      return {
+        failedChunks: readFailedChunks(response),
+        ...(await checkPages(response, blob, ids)),
+      };
     }
   } catch (error) {
     // Close the tab if we encounter an error
@@ -186,13 +438,17 @@ export async function openPdfInNewTabSafariFallback(
  * @param idToken - JWT token for authentication
  * @param useSafariFallback - Use Safari/iOS compatible approach (default: false)
  * @param wBh - Optional w-bh cookie value for enhanced compatibility
+ * @param render - Layout, stamping and cover page (server proxy only)
+ * @param target - New tab (default) or the local print agent
  */
 export async function openPdfInNewTab(
   idsEncoded: string,
   idToken: string,
   useSafariFallback = false,
   wBh?: string,
-): Promise<void> {
+  render: PdfRenderOptions = {},
+  target: PrintTarget = { kind: "tab" },
+): Promise<PdfOpenResult> {
   if (!idsEncoded) {
     throw new Error("No IDs provided");
   }
@@ -201,18 +457,104 @@ export async function openPdfInNewTab(
     throw new Error("No authentication token provided");
   }
 
+  // The print agent needs no popup, so it also sidesteps popup blockers
+  if (target.kind === "agent") {
+    return openPdfInNewTabViaProxy(idsEncoded, idToken, wBh, render, target);
+  }
+
   if (useSafariFallback) {
-    return openPdfInNewTabSafariFallback(idsEncoded, idToken);
+    return openPdfInNewTabSafariFallback(idsEncoded, idToken, render);
   }
 
   if (SAME_ORIGIN) {
     // Same-origin approach: set cookie and open direct URL
     setAuthCookie(idToken);
     openPdfInNewTabDirect(idsEncoded);
-  } else {
-    // Cross-origin approach: use hardened server proxy
-    await openPdfInNewTabViaProxy(idsEncoded, idToken, wBh);
+    return { failedChunks: [] };
   }
+
+  // Cross-origin approach: use hardened server proxy
+  return openPdfInNewTabViaProxy(idsEncoded, idToken, wBh, render);
+}
+
+/**
+ * Save a downloaded file as airwaybills-<timestamp>.<extension>
+ */
+function saveBlob(blob: Blob, extension: string): void {
+  const blobUrl = URL.createObjectURL(blob);
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, "-");
+
+  const link = document.createElement("a");
+  link.href = blobUrl;
+  link.download = `airwaybills-${stamp}.${extension}`;
+  link.click();
+
+  setTimeout(() => {
+    URL.revokeObjectURL(blobUrl);
+  }, 60000);
+}
+
+/**
+ * Download one PDF per order as a ZIP archive of <order_number>.pdf files
+ * @param orders - Shipox IDs with the order numbers used as file names
+ * @param idToken - JWT token for authentication
+ * @param wBh - Optional w-bh cookie value
+ * @returns Chunks whose labels are missing from the archive
+ */
+export async function downloadPdfZip(
+  orders: PdfZipOrder[],
+  idToken: string,
+  wBh?: string,
+): Promise<PdfOpenResult> {
+  if (orders.length === 0) {
+    throw new Error("No IDs provided");
+  }
+
+  const response = await fetch("/api/pdf/zip", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Auth-Token": idToken,
+      ...(wBh && { "X-BH": wBh, "X-W-BH": wBh }),
+      Accept: "application/zip",
+    },
+    body: JSON.stringify({ orders }),
+  });
+
+  if (response.status === 401) {
+    throw new Error("UNAUTHORIZED_401");
+  }
+
+  if (!response.ok) {
+    throw new Error(`PDF_FAILED_${response.status}`);
+  }
+
+  saveBlob(await response.blob(), "zip");
+
+  return { failedChunks: readFailedChunks(response) };
+}
+
+/**
+ * Download the selected orders as a ZPL print job for Zebra printers
+ * Labels are generated from the order details, not from the upstream PDF
+ * @param orders - Orders with the details printed on each label
+ */
+export async function downloadZpl(orders: ZplLabelOrder[]): Promise<void> {
+  if (orders.length === 0) {
+    throw new Error("No IDs provided");
+  }
+
+  const response = await fetch("/api/zpl", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orders }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`ZPL_FAILED_${response.status}`);
+  }
+
+  saveBlob(await response.blob(), "zpl");
 }
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * History of printed airwaybill batches, kept in IndexedDB
+ * Only IDs and metadata are stored; a past batch is re-downloaded by asking
+ * the proxy to generate the PDF again.
+ */
+
+import type { LabelLayout } from "@shared/api";
+import {
+  isIndexedDbAvailable,
+  openDatabase,
+  PRINT_HISTORY_STORE,
+  requestToPromise,
+  transactionDone,
+} from "./idb";
+
+// Oldest batches are dropped above this many entries
+const HISTORY_MAX_ENTRIES = 500;
+
+/**
+ * One printed batch
+ */
+export interface PrintHistoryEntry {
+  id?: number; // Assigned by IndexedDB
+  createdAt: number;
+  user: string; // Login name, "" if unknown
+  orderNumbers: string[]; // Of the printed orders, aligned with `ids`
+  ids: number[]; // Shipox IDs sent to the PDF proxy, in page order
+  pageCount?: number; // Unknown when the PDF was opened directly
+  failedChunks: number; // PDF parts that could not be fetched
+  batchId?: string; // Stamped on labels; reused when re-downloading
+  // Label settings the batch was printed with; absent in older entries
+  layout?: LabelLayout;
+  stamp?: boolean;
+  coverPage?: boolean;
+}
+
+/**
+ * Short, human-readable batch ID for stamped labels, e.g. "B-1019-1432-7Q"
+ * (month-day, hour-minute, then two random characters)
+ * @returns New batch ID
+ */
+export function createBatchId(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const random = Math.random().toString(36).slice(2, 4).toUpperCase();
+  return `B-${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}-${random}`;
+}
+
+/**
+ * Record a printed batch
+ * @param entry - Batch details (without id)
+ * @returns Promise with the new entry id, or undefined without IndexedDB
+ */
+export async function addHistoryEntry(
+  entry: Omit<PrintHistoryEntry, "id">,
+): Promise<number | undefined> {
+  if (!isIndexedDbAvailable()) return undefined;
+
+  const db = await openDatabase();
+  const tx = db.transaction(PRINT_HISTORY_STORE, "readwrite");
+  const store = tx.objectStore(PRINT_HISTORY_STORE);
+  const id = await requestToPromise(store.add(entry));
+
+  const count = await requestToPromise(store.count());
+  let excess = count - HISTORY_MAX_ENTRIES;
+
+  if (excess > 0) {
+    const cursorRequest = store.index("createdAt").openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  }
+
+  await transactionDone(tx);
+  return Number(id);
+}
+
+/**
+ * List printed batches, newest first
+ * @returns Promise with all stored entries
+ */
+export async function listHistory(): Promise<PrintHistoryEntry[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  const db = await openDatabase();
+  const entries = await requestToPromise<PrintHistoryEntry[]>(
+    db
+      .transaction(PRINT_HISTORY_STORE, "readonly")
+      .objectStore(PRINT_HISTORY_STORE)
+      .index("createdAt")
+      .getAll(),
+  );
+
+  return entries.reverse();
+}
+
+/**
+ * Remove one batch from the history
+ * @param id - Entry id
+ */
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(PRINT_HISTORY_STORE, "readwrite");
+  tx.objectStore(PRINT_HISTORY_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Remove every batch from the history
+ */
+export async function clearHistory(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(PRINT_HISTORY_STORE, "readwrite");
+  tx.objectStore(PRINT_HISTORY_STORE).clear();
+  await transactionDone(tx);
+}
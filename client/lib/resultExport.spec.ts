@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { buildExportRows, escapeCsvFormulas } from "./resultExport";
+
+describe("buildExportRows", () => {
+  it("should list every requested number in input order", () => {
+    const rows = buildExportRows(
+      {
+        ids: [2, 1, 9],
+        idsEncoded: "2%2C1%2C9",
+        notFound: ["C"],
+        unrequested: [{ id: 9, orderNumber: "Z" }],
+        orders: [
+          { orderNumber: "B", id: 2, status: "created" },
+          { orderNumber: "A", id: 1 },
+        ],
+        failedBatches: [
+          {
+            orderNumbers: ["D"],
+            searchType: "order_number",
+            error: "SEARCH_FAILED_503",
+            attempts: 4,
+          },
+        ],
+        skipped: [
+          {
+            id: 5,
+            orderNumber: "E",
+            status: "cancelled",
+            reason: 'status "cancelled" is excluded',
+          },
+        ],
+      },
+      ["A", "B", "C", "D", "E"],
+      new Set([1]),
+    );
+
+    expect(
+      rows.map((r) => [
+        r["Order number"],
+        r["Shipox ID"],
+        r["Not found"],
+        r.Selected,
+      ]),
+    ).toEqual([
+      ["A", 1, "", ""],
+      ["B", 2, "", "yes"],
+      ["C", "", "yes", ""],
+      ["D", "", "", ""],
+      ["E", 5, "", ""],
+      ["Z", 9, "", "yes"],
+    ]);
+    expect(rows[3].Note).toBe("Search failed");
+  });
+});
+
+describe("escapeCsvFormulas", () => {
+  it("should prefix cells that would run as formulas", () => {
+    const rows = escapeCsvFormulas(
+      buildExportRows(
+        {
+          ids: [1, 2],
+          idsEncoded: "1%2C2",
+          notFound: [],
+          unrequested: [],
+          orders: [
+            { orderNumber: "+998901234567", id: 1, status: "=1+1" },
+            { orderNumber: "-cmd|' /C calc'!A0", id: 2, status: "@SUM(A1)" },
+          ],
+          failedBatches: [],
+        },
+        ["+998901234567", "-cmd|' /C calc'!A0"],
+      ),
+    );
+
+    expect(rows[0]["Order number"]).toBe("+998901234567");
+    expect(rows[0].Status).toBe("'=1+1");
+    expect(rows[0]["Shipox ID"]).toBe(1);
+    expect(rows[1]["Order number"]).toBe("'-cmd|' /C calc'!A0");
+    expect(rows[1].Status).toBe("'@SUM(A1)");
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * CSV/XLSX export of search results
+ * One row per requested number (several if it matched several orders), then
+ * unrequested items, so the file can be reconciled with merchant manifests
+ */
+
+import { utils, writeFile } from "xlsx";
+import type { SearchResult } from "@shared/api";
+import { orderNumberKey } from "@shared/orderNumbers";
+
+export type ExportFormat = "csv" | "xlsx";
+
+// Leading characters that make spreadsheet apps evaluate a CSV cell as a
+// formula (OWASP CSV injection list)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Signed numbers and phones ("+998 90 123-45-67"): at most plain arithmetic,
+// no functions or cell references, so they are exported unchanged
+const NUMERIC_TOKEN = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * One exported line
+ */
+export interface ExportRow {
+  "Order number": string;
+  "Shipox ID": number | "";
+  Status: string;
+  "Not found": "yes" | "";
+  Selected: "yes" | ""; // Checked for download in the results table
+  Note: string;
+}
+
+/**
+ * Build export rows in the order the numbers were entered
+ * @param result - Search result
+ * @param orderNumbers - Normalized order numbers as entered
+ * @param excludedIds - IDs unchecked in the results table
+ * @returns Rows ready for a sheet
+ */
+export function buildExportRows(
+  result: SearchResult,
+  orderNumbers: string[],
+  excludedIds: Set<number> = new Set(),
+): ExportRow[] {
+  const ordersByKey = new Map<string, SearchResult["orders"]>();
+  for (const order of result.orders) {
+    const key = orderNumberKey(order.orderNumber);
+    ordersByKey.set(key, [...(ordersByKey.get(key) ?? []), order]);
+  }
+
+  const skippedByKey = new Map(
+    (result.skipped ?? []).map((o) => [orderNumberKey(o.orderNumber), o]),
+  );
+  const notFound = new Set(result.notFound.map(orderNumberKey));
+  const failed = new Set(
+    result.failedBatches.flatMap((b) => b.orderNumbers.map(orderNumberKey)),
+  );
+
+  const rows: ExportRow[] = [];
+  const row = (fields: Partial<ExportRow>): ExportRow => ({
+    "Order number": "",
+    "Shipox ID": "",
+    Status: "",
+    "Not found": "",
+    Selected: "",
+    Note: "",
+    ...fields,
+  });
+
+  for (const orderNumber of orderNumbers) {
+    const key = orderNumberKey(orderNumber);
+    const orders = ordersByKey.get(key) ?? [];
+
+    for (const order of orders) {
+      rows.push(
+        row({
+          "Order number": orderNumber,
+          "Shipox ID": order.id,
+          Status: order.status ?? "",
+          Selected: excludedIds.has(order.id) ? "" : "yes",
+        }),
+      );
+    }
+
+    if (orders.length > 0) continue;
+
+    const skipped = skippedByKey.get(key);
+    if (skipped) {
+      rows.push(
+        row({
+          "Order number": orderNumber,
+          "Shipox ID": skipped.id,
+          Status: skipped.status,
+          Note: `Skipped: ${skipped.reason}`,
+        }),
+      );
+    } else if (failed.has(key)) {
+      rows.push(row({ "Order number": orderNumber, Note: "Search failed" }));
+    } else if (notFound.has(key)) {
+      rows.push(row({ "Order number": orderNumber, "Not found": "yes" }));
+    }
+  }
+
+  for (const item of result.unrequested) {
+    rows.push(
+      row({
+        "Order number": item.orderNumber,
+        "Shipox ID": item.id,
+        Status: item.status ?? "",
+        Selected: excludedIds.has(item.id) ? "" : "yes",
+        Note: "Unrequested item returned by Shipox",
+      }),
+    );
+  }
+
+  return rows;
+}
+
+/**
+ * Neutralize a cell that a spreadsheet app would run as a formula
+ * @param value - Cell text
+ * @returns Value with a leading apostrophe (hidden by Excel) when needed
+ */
+function escapeCsvCell(value: string): string {
+  return FORMULA_PREFIX.test(value) && !NUMERIC_TOKEN.test(value)
+    ? `'${value}`
+    : value;
+}
+
+/**
+ * Neutralize text cells that a spreadsheet app would run as formulas
+ * Numeric and phone tokens stay as they are so the file can be imported
+ * again. XLSX cells are typed as text already and need no escaping.
+ * @param rows - Rows from buildExportRows
+ * @returns Rows safe to write as CSV
+ */
+export function escapeCsvFormulas(rows: ExportRow[]): ExportRow[] {
+  return rows.map((row) => ({
+    ...row,
+    "Order number": escapeCsvCell(row["Order number"]),
+    Status: escapeCsvCell(row.Status),
+    Note: escapeCsvCell(row.Note),
+  }));
+}
+
+/**
+ * Download export rows as a CSV or XLSX file
+ * @param rows - Rows from buildExportRows
+ * @param format - File format
+ * @returns File name used for the download
+ */
+export function downloadExport(
+  rows: ExportRow[],
+  format: ExportFormat,
+): string {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, "-");
+  const fileName = `airwaybill-search-${stamp}.${format}`;
+
+  const workbook = utils.book_new();
+  utils.book_append_sheet(
+    workbook,
+    utils.json_to_sheet(format === "csv" ? escapeCsvFormulas(rows) : rows),
+    "Results",
+  );
+  writeFile(workbook, fileName, { bookType: format });
+
+  return fileName;
+}
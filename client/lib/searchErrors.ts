@@ -0,0 +1,46 @@
+/**
+ * Human-readable messages for order search error codes
+ * The server and search client surface short codes (SEARCH_TIMEOUT_PAGE,
+ * SEARCH_FAILED_503, ...); these turn them into something the user can act on
+ */
+
+/**
+ * Describe a search error code for display
+ * @param code - Error code from a failed batch or a rejected search
+ * @returns Message explaining what happened and what to do next
+ */
+export function describeSearchError(code: string): string {
+  if (code === "SEARCH_TIMEOUT_PAGE") {
+    return "Shipox did not answer a page in time - retry the batch";
+  }
+
+  if (code === "SEARCH_TIMEOUT_TOTAL") {
+    return "Search deadline reached before this batch ran - retry it or search fewer numbers";
+  }
+
+  if (code === "SEARCH_FAILED_429") {
+    return "Shipox rate limit hit - wait a minute, then retry";
+  }
+
+  if (code === "UNAUTHORIZED_401") {
+    return "Session expired - log in again";
+  }
+
+  const failed = code.match(/^SEARCH_FAILED_(\d{3})$/);
+  if (failed) {
+    return Number(failed[1]) >= 500
+      ? `Shipox is unavailable (HTTP ${failed[1]}) - retry later`
+      : `Shipox rejected the search (HTTP ${failed[1]})`;
+  }
+
+  if (code === "SEARCH_STREAM_INCOMPLETE") {
+    return "Connection dropped before the search finished - search again";
+  }
+
+  // Browser ("Failed to fetch") and Node ("fetch failed") network errors
+  if (code === "Failed to fetch" || code === "fetch failed") {
+    return "Network error - check your connection and retry";
+  }
+
+  return code;
+}
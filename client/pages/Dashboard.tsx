@@ -1,4 +1,5 @@
-import React, { useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,32 +13,167 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   collectIdsPaged,
+  groupBySearchType,
+  mergeSearchResults,
   normalizeOrderNumbers,
   getCacheStats,
   clearOrderCache,
+  type FailedBatch,
+  type SearchProgress,
+  type SearchResult,
+  type SearchStats,
+  type SearchType,
+  type SearchTypeOption,
+  type SortMode,
 } from "@/lib/orderSearch";
 import ViewPdfButton from "@/components/ViewPdfButton";
+import SearchProgressBar from "@/components/SearchProgressBar";
+import FailedBatchesCard from "@/components/FailedBatchesCard";
+import OrderResultsTable from "@/components/OrderResultsTable";
+import OrderFileImport from "@/components/OrderFileImport";
+import ScanModePanel from "@/components/ScanModePanel";
 import { getWBhToken } from "@/lib/cookieUtils";
+import { describeSearchError } from "@/lib/searchErrors";
+import { addHistoryEntry, createBatchId } from "@/lib/printHistory";
+import { downloadPdfZip, downloadZpl } from "@/lib/pdfViewer";
+import { useLabelLayout, useLabelStamping } from "@/hooks/use-label-layout";
+import LabelOptions from "@/components/LabelOptions";
+import PageCountWarningAlert from "@/components/PageCountWarningAlert";
+import type { PdfPageCountWarning, PdfRenderOptions } from "@shared/api";
+import { usePrintTarget } from "@/hooks/use-print-target";
+import PrintTargetSettings from "@/components/PrintTargetSettings";
+import {
+  buildExportRows,
+  downloadExport,
+  type ExportFormat,
+} from "@/lib/resultExport";
+
+const SORT_MODE_LABELS: Record<SortMode, string> = {
+  input: "As entered",
+  response: "API response order",
+  courier: "Courier",
+  city: "Recipient city",
+  created_at: "Creation date",
+};
+
+const SEARCH_TYPE_LABELS: Record<SearchTypeOption, string> = {
+  order_number: "Order number",
+  reference: "Tracking / reference number",
+  phone: "Customer phone",
+  auto: "Auto-detect (mixed list)",
+};
+
+// Status exclude rule, kept across sessions. Empty prints every status and
+// keeps the order cache usable; a rule needs fresh statuses for every order.
+const EXCLUDE_STATUSES_KEY = "exclude_statuses";
+
+// Batching and timeouts shared by the initial search and batch retries
+const SEARCH_OPTIONS = {
+  batchSize: 450,
+  concurrency: 6,
+  pageTimeoutMs: 30000,
+  totalTimeoutMs: 5 * 60 * 1000,
+};
+
+/**
+ * One-line timing summary used to tune batchSize/concurrency
+ */
+function describeSearchStats(stats: SearchStats): string {
+  const durations = stats.batches.map((b) => b.durationMs);
+  const avg = Math.round(
+    durations.reduce((sum, ms) => sum + ms, 0) / durations.length,
+  );
+  return `Timing: ${stats.batches.length} batches in ${stats.totalMs} ms (batchSize=${stats.batchSize}, concurrency=${stats.concurrency}, avg ${avg} ms, slowest ${Math.max(...durations)} ms)`;
+}
 
 const Dashboard: React.FC = () => {
-  const { logout, getTokens } = useAuth();
+  const { logout, getTokens, getUsername } = useAuth();
 
   // Application state
   const [orderNumbers, setOrderNumbers] = useState("");
+  const [sortBy, setSortBy] = useState<SortMode>("input");
+  const [searchType, setSearchType] =
+    useState<SearchTypeOption>("order_number");
+  const [scanMode, setScanMode] = useState(false);
+  const [autoSearchRequested, setAutoSearchRequested] = useState(false);
+  const [excludeStatusesInput, setExcludeStatusesInput] = useState(
+    () => localStorage.getItem(EXCLUDE_STATUSES_KEY) ?? "",
+  );
   const [idToken, setIdToken] = useState<string>("");
   const [isSearching, setIsSearching] = useState(false);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(
+    null,
+  );
+  const searchAbortRef = useRef<AbortController | null>(null);
   const [normalizedOrderNumbers, setNormalizedOrderNumbers] = useState<
     string[]
   >([]);
-  const [foundIds, setFoundIds] = useState<number[]>([]);
-  const [notFoundOrders, setNotFoundOrders] = useState<string[]>([]);
-  const [idsEncoded, setIdsEncoded] = useState<string>("");
+  const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
+  const [resultSortBy, setResultSortBy] = useState<SortMode>("input");
+  const [retryingBatch, setRetryingBatch] = useState<FailedBatch | null>(null);
+  const [excludedIds, setExcludedIds] = useState<Set<number>>(new Set());
+  const [isZipping, setIsZipping] = useState(false);
+  const [isBuildingZpl, setIsBuildingZpl] = useState(false);
+  const [labelLayout, setLabelLayout] = useLabelLayout();
+  const [printTarget, setPrintTarget] = usePrintTarget();
+  const [stamping, setStamping] = useLabelStamping();
+  const [pageWarning, setPageWarning] = useState<PdfPageCountWarning | null>(
+    null,
+  );
   const [logs, setLogs] = useState<string[]>([]);
   const [error, setError] = useState("");
 
+  const foundIds = searchResult?.ids ?? [];
+  const notFoundOrders = searchResult?.notFound ?? [];
+  const skippedOrders = searchResult?.skipped ?? [];
+  const excludeStatuses = excludeStatusesInput
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const unrequestedOrders = searchResult?.unrequested ?? [];
+  // Rows unchecked in the results table are left out of the download
+  const selectedIds = foundIds.filter((id) => !excludedIds.has(id));
+  const selectedIdsEncoded = selectedIds.map(String).join("%2C");
+
+  // Selected orders in download order, with the order number each ID matched
+  const selectedOrders = (() => {
+    if (!searchResult) return [];
+    const byId = new Map(
+      [...searchResult.orders, ...searchResult.unrequested].map((o) => [
+        o.id,
+        o,
+      ]),
+    );
+    return selectedIds.map((id) => ({
+      ...byId.get(id),
+      id,
+      orderNumber: byId.get(id)?.orderNumber || String(id),
+    }));
+  })();
+
+  // New batch ID whenever the selection changes; stamped on the labels and
+  // kept in the print history so re-downloads show the same batch
+  const batchId = useMemo(() => createBatchId(), [selectedIdsEncoded]);
+  const stamped = stamping.stamp || stamping.coverPage;
+  const pdfRender: PdfRenderOptions = {
+    layout: labelLayout,
+    ...stamping,
+    batchId,
+    operator: getUsername(),
+    orderNumbers: stamped
+      ? selectedOrders.map((o) => o.orderNumber)
+      : undefined,
+  };
+
   // Airwaybill functions
   const addLog = (message: string) => {
     setLogs((prev) => [
@@ -49,9 +185,7 @@ const Dashboard: React.FC = () => {
   const clearLogs = () => {
     setLogs([]);
     setError("");
-    setFoundIds([]);
-    setNotFoundOrders([]);
-    setIdsEncoded("");
+    setSearchResult(null);
   };
 
   // Event handlers
@@ -66,7 +200,10 @@ const Dashboard: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
     setIsSearching(true);
+    setSearchProgress(null);
     setError("");
 
     try {
@@ -74,28 +211,94 @@ const Dashboard: React.FC = () => {
       setNormalizedOrderNumbers(normalized);
 
       addLog(`Order numbers entered: ${normalized.length}`);
+
+      if (searchType === "auto") {
+        const groups = groupBySearchType(normalized, "auto");
+        addLog(
+          `Auto-detected: ${(Object.keys(groups) as SearchType[])
+            .map(
+              (type) => `${SEARCH_TYPE_LABELS[type]}: ${groups[type].length}`,
+            )
+            .join(", ")}`,
+        );
+      }
       addLog("Starting order search...");
 
       const results = await collectIdsPaged(orderNumbers, idToken, {
-        batchSize: 450,
-        concurrency: 6,
+        ...SEARCH_OPTIONS,
+        sortBy,
+        searchType,
+        excludeStatuses,
+        signal: controller.signal,
+        onProgress: setSearchProgress,
       });
 
-      setFoundIds(results.ids);
-      setNotFoundOrders(results.notFound);
-      setIdsEncoded(results.idsEncoded);
+      setSearchResult(results);
+      setResultSortBy(sortBy);
+      setExcludedIds(new Set());
 
       addLog(
         `Search completed: found ${results.ids.length} IDs from ${normalized.length} numbers`,
       );
       addLog(`Encoded IDs: ${results.idsEncoded}`);
 
+      if (results.cache) {
+        addLog(
+          results.cache.bypassed
+            ? `Cache bypassed (${excludeStatuses.length > 0 ? "status filter needs fresh statuses" : "IndexedDB unavailable"})`
+            : `Cache: ${results.cache.hits} hits, ${results.cache.misses} misses`,
+        );
+      }
+
+      if (results.stats) {
+        addLog(describeSearchStats(results.stats));
+      }
+
       if (results.notFound.length > 0) {
         addLog(
           `Numbers not found (${results.notFound.length}): ${results.notFound.join(", ")}`,
         );
       }
+
+      if (results.unrequested.length > 0) {
+        addLog(
+          `Unrequested items returned (${results.unrequested.length}): ${results.unrequested
+            .map((u) => u.orderNumber || `#${u.id}`)
+            .join(", ")}`,
+        );
+      }
+
+      if (results.skipped && results.skipped.length > 0) {
+        addLog(
+          `Skipped by status (${results.skipped.length}): ${results.skipped
+            .map((o) => `${o.orderNumber || `#${o.id}`} (${o.reason})`)
+            .join(", ")}`,
+        );
+      }
+
+      if (results.failedBatches.length > 0) {
+        const failedCount = results.failedBatches.reduce(
+          (sum, batch) => sum + batch.orderNumbers.length,
+          0,
+        );
+        setError(
+          `${results.failedBatches.length} batch(es) failed (${failedCount} numbers) - retry them below`,
+        );
+        addLog(
+          `Failed batches: ${results.failedBatches
+            .map(
+              (b) =>
+                `${b.orderNumbers.length} numbers (${describeSearchError(b.error)})`,
+            )
+            .join(", ")}`,
+        );
+      }
     } catch (error) {
+      if (error instanceof Error && error.message === "SEARCH_ABORTED") {
+        addLog("Search cancelled");
+        return;
+      }
+
       if (error instanceof Error && error.message === "UNAUTHORIZED_401") {
         addLog("Session expired, re-authentication required");
         logout();
@@ -111,11 +314,140 @@ const Dashboard: React.FC = () => {
       }
 
       const message =
-        error instanceof Error ? error.message : "Order search error";
+        error instanceof Error
+          ? describeSearchError(error.message)
+          : "Order search error";
       setError(message);
       addLog(`Error: ${message}`);
     } finally {
+      searchAbortRef.current = null;
       setIsSearching(false);
+      setSearchProgress(null);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!searchResult) return;
+    const rows = buildExportRows(
+      searchResult,
+      normalizedOrderNumbers,
+      excludedIds,
+    );
+    const fileName = downloadExport(rows, format);
+    addLog(`Exported ${rows.length} rows to ${fileName}`);
+  };
+
+  const handleZipDownload = async () => {
+    const orders = selectedOrders.map(({ id, orderNumber }) => ({
+      id,
+      orderNumber,
+    }));
+
+    setIsZipping(true);
+    setError("");
+    try {
+      const { failedChunks } = await downloadPdfZip(
+        orders,
+        idToken,
+        getWBhToken() || undefined,
+      );
+      addLog(`🗜️ ZIP downloaded with ${orders.length} per-order PDFs`);
+
+      if (failedChunks.length > 0) {
+        const missing = failedChunks.reduce(
+          (sum, chunk) => sum + chunk.ids.length,
+          0,
+        );
+        setError(
+          `${failedChunks.length} PDF part(s) failed - ${missing} orders missing from the ZIP (see MISSING.txt)`,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setError(`ZIP download failed: ${message}`);
+      addLog(`❌ ZIP Error: ${message}`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleZplDownload = async () => {
+    setIsBuildingZpl(true);
+    setError("");
+    try {
+      await downloadZpl(selectedOrders);
+      addLog(`🏷️ ZPL job downloaded with ${selectedOrders.length} labels`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setError(`ZPL download failed: ${message}`);
+      addLog(`❌ ZPL Error: ${message}`);
+    } finally {
+      setIsBuildingZpl(false);
+    }
+  };
+
+  // Scan mode asks for a search from a timer or key handler; running it from
+  // an effect makes sure it sees the list including the last scan
+  React.useEffect(() => {
+    if (!autoSearchRequested) return;
+    setAutoSearchRequested(false);
+    if (!isSearching) handleSearchOrders();
+  }, [autoSearchRequested]);
+
+  const handleCancelSearch = () => {
+    searchAbortRef.current?.abort();
+  };
+
+  const handleRetryBatch = async (batch: FailedBatch) => {
+    setRetryingBatch(batch);
+    addLog(`Retrying batch of ${batch.orderNumbers.length} numbers...`);
+
+    try {
+      const retry = await collectIdsPaged(
+        batch.orderNumbers.join("\n"),
+        idToken,
+        {
+          ...SEARCH_OPTIONS,
+          sortBy: resultSortBy,
+          searchType: batch.searchType,
+          excludeStatuses,
+        },
+      );
+
+      setSearchResult((prev) =>
+        prev
+          ? mergeSearchResults(
+              {
+                ...prev,
+                failedBatches: prev.failedBatches.filter((b) => b !== batch),
+              },
+              retry,
+              normalizedOrderNumbers,
+              resultSortBy,
+            )
+          : retry,
+      );
+
+      addLog(
+        retry.failedBatches.length > 0
+          ? `Retry failed again: ${describeSearchError(retry.failedBatches[0].error)}`
+          : `Retry completed: ${retry.ids.length} IDs, ${retry.notFound.length} not found`,
+      );
+      if (retry.failedBatches.length === 0) setError("");
+    } catch (error) {
+      if (error instanceof Error && error.message === "UNAUTHORIZED_401") {
+        addLog("Session expired, re-authentication required");
+        logout();
+        return;
+      }
+
+      const message =
+        error instanceof Error
+          ? describeSearchError(error.message)
+          : "Order search error";
+      addLog(`Retry error: ${message}`);
+    } finally {
+      setRetryingBatch(null);
     }
   };
 
@@ -153,13 +485,22 @@ const Dashboard: React.FC = () => {
                 PDF Airwaybill Download
               </h1>
             </div>
-            <Button
-              onClick={logout}
-              variant="outline"
-              className="border-gray-300 hover:bg-gray-50"
-            >
-              Logout
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-300 hover:bg-gray-50"
+              >
+                <Link to="/history">History</Link>
+              </Button>
+              <Button
+                onClick={logout}
+                variant="outline"
+                className="border-gray-300 hover:bg-gray-50"
+              >
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -194,10 +535,106 @@ const Dashboard: React.FC = () => {
                     id="order-numbers"
                     value={orderNumbers}
                     onChange={(e) => setOrderNumbers(e.target.value)}
+                    readOnly={scanMode}
                     placeholder="Enter order numbers (separated by commas, spaces, or new lines)..."
                     className="min-h-[120px] resize-none"
                     disabled={isSearching}
                   />
+                  <ScanModePanel
+                    enabled={scanMode}
+                    disabled={isSearching}
+                    existing={normalizeOrderNumbers(orderNumbers)}
+                    onEnabledChange={(enabled) => {
+                      setScanMode(enabled);
+                      addLog(enabled ? "Scan mode on" : "Scan mode off");
+                    }}
+                    onScan={(code) => {
+                      setOrderNumbers((prev) =>
+                        prev.trim() ? `${prev.trimEnd()}\n${code}` : code,
+                      );
+                      addLog(`Scanned: ${code}`);
+                    }}
+                    onAutoSearch={() => setAutoSearchRequested(true)}
+                  />
+                  <OrderFileImport
+                    disabled={isSearching}
+                    onImport={(numbers, fileName) => {
+                      setOrderNumbers((prev) =>
+                        prev.trim()
+                          ? `${prev.trimEnd()}\n${numbers.join("\n")}`
+                          : numbers.join("\n"),
+                      );
+                      addLog(
+                        `Imported ${numbers.length} order numbers from ${fileName}`,
+                      );
+                    }}
+                    onError={(message) => {
+                      setError(message);
+                      addLog(`Import error: ${message}`);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="search-type">Search by</Label>
+                  <Select
+                    value={searchType}
+                    onValueChange={(value) =>
+                      setSearchType(value as SearchTypeOption)
+                    }
+                    disabled={isSearching}
+                  >
+                    <SelectTrigger id="search-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(
+                        Object.keys(SEARCH_TYPE_LABELS) as SearchTypeOption[]
+                      ).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {SEARCH_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exclude-statuses">
+                    Skip orders in status
+                  </Label>
+                  <Input
+                    id="exclude-statuses"
+                    value={excludeStatusesInput}
+                    onChange={(e) => {
+                      setExcludeStatusesInput(e.target.value);
+                      localStorage.setItem(
+                        EXCLUDE_STATUSES_KEY,
+                        e.target.value,
+                      );
+                    }}
+                    placeholder="e.g. cancelled, delivered (empty = print all)"
+                    disabled={isSearching}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sort-by">Label order</Label>
+                  <Select
+                    value={sortBy}
+                    onValueChange={(value) => setSortBy(value as SortMode)}
+                    disabled={isSearching}
+                  >
+                    <SelectTrigger id="sort-by">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SORT_MODE_LABELS) as SortMode[]).map(
+                        (mode) => (
+                          <SelectItem key={mode} value={mode}>
+                            {SORT_MODE_LABELS[mode]}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
                 </div>
                 {normalizedOrderNumbers.length > 0 && (
                   <div className="text-sm text-gray-600">
@@ -212,7 +649,13 @@ const Dashboard: React.FC = () => {
                   >
                     {isSearching ? "Searching orders..." : "Find Orders"}
                   </Button>
+                  {isSearching && (
+                    <Button onClick={handleCancelSearch} variant="outline">
+                      Cancel
+                    </Button>
+                  )}
                 </div>
+                {isSearching && <SearchProgressBar progress={searchProgress} />}
               </CardContent>
             </Card>
 
@@ -224,7 +667,8 @@ const Dashboard: React.FC = () => {
               <CardContent className="space-y-4">
                 {foundIds.length > 0 && (
                   <div className="text-sm text-green-600">
-                    IDs found for download: {foundIds.length}
+                    Selected for download: {selectedIds.length} of{" "}
+                    {foundIds.length}
                   </div>
                 )}
                 {notFoundOrders.length > 0 && (
@@ -232,24 +676,134 @@ const Dashboard: React.FC = () => {
                     Not found: {notFoundOrders.length} numbers
                   </div>
                 )}
+                <LabelOptions
+                  layout={labelLayout}
+                  stamping={stamping}
+                  onLayoutChange={setLabelLayout}
+                  onStampingChange={setStamping}
+                />
+                <PrintTargetSettings
+                  value={printTarget}
+                  onChange={setPrintTarget}
+                />
                 <ViewPdfButton
-                  idsEncoded={idsEncoded}
+                  idsEncoded={selectedIdsEncoded}
                   idToken={idToken}
                   wBh={getWBhToken() || undefined}
-                  disabled={foundIds.length === 0}
+                  render={pdfRender}
+                  printTarget={printTarget}
+                  disabled={selectedIds.length === 0}
                   className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
                   onError={(error) => {
                     setError(error);
                     addLog(`❌ PDF Error: ${error}`);
                   }}
-                  onSuccess={() => {
+                  onSuccess={({
+                    failedChunks,
+                    pageCount,
+                    expectedCount,
+                    pageWarning,
+                    printedVia,
+                    agentError,
+                  }) => {
                     addLog(
-                      `✅ PDF opened successfully with ${foundIds.length} orders`,
+                      `✅ PDF ${printedVia === "agent" ? "sent to the print agent" : "opened successfully"} with ${selectedIds.length} orders${pageCount ? ` (${pageCount} pages)` : ""}`,
                     );
+                    setPageWarning(pageWarning ?? null);
+                    if (pageWarning) {
+                      addLog(
+                        `⚠️ Page count mismatch: ${pageWarning.actual} pages for ${pageWarning.expected} orders (${expectedCount ?? selectedIds.length} requested)`,
+                      );
+                    }
+                    if (agentError) {
+                      addLog(
+                        `⚠️ Print agent failed (${agentError}), opened in a new tab instead`,
+                      );
+                    }
+
+                    addHistoryEntry({
+                      createdAt: Date.now(),
+                      user: getUsername(),
+                      orderNumbers: selectedOrders.map((o) => o.orderNumber),
+                      ids: selectedIds,
+                      pageCount,
+                      failedChunks: failedChunks.length,
+                      batchId: stamped ? batchId : undefined,
+                      layout: labelLayout,
+                      ...stamping,
+                    }).catch((error) =>
+                      console.warn("Print history write failed:", error),
+                    );
+
+                    if (failedChunks.length > 0) {
+                      const missing = failedChunks.reduce(
+                        (sum, chunk) => sum + chunk.ids.length,
+                        0,
+                      );
+                      setError(
+                        `${failedChunks.length} PDF part(s) failed - ${missing} labels missing, see logs`,
+                      );
+                      for (const chunk of failedChunks) {
+                        addLog(
+                          `⚠️ PDF part ${chunk.index + 1} failed (${chunk.status || "network"}: ${chunk.error}), IDs: ${chunk.ids.join(", ")}`,
+                        );
+                      }
+                    }
                   }}
                 >
                   Download
                 </ViewPdfButton>
+                <PageCountWarningAlert
+                  warning={pageWarning}
+                  orderNumberById={
+                    new Map(
+                      selectedOrders.map((o) => [String(o.id), o.orderNumber]),
+                    )
+                  }
+                  onDismiss={() => setPageWarning(null)}
+                />
+                {searchResult && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleExport("csv")}
+                    >
+                      Export CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleExport("xlsx")}
+                    >
+                      Export XLSX
+                    </Button>
+                  </div>
+                )}
+                {searchResult && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      disabled={selectedIds.length === 0 || isZipping}
+                      onClick={handleZipDownload}
+                    >
+                      {isZipping ? "Preparing ZIP…" : "ZIP (PDF per order)"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      disabled={selectedIds.length === 0 || isBuildingZpl}
+                      onClick={handleZplDownload}
+                    >
+                      {isBuildingZpl ? "Preparing ZPL…" : "ZPL (Zebra)"}
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -259,7 +813,9 @@ const Dashboard: React.FC = () => {
             {/* Status Summary */}
             {(normalizedOrderNumbers.length > 0 ||
               foundIds.length > 0 ||
-              notFoundOrders.length > 0) && (
+              notFoundOrders.length > 0 ||
+              unrequestedOrders.length > 0 ||
+              skippedOrders.length > 0) && (
               <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm">
                 <CardHeader>
                   <CardTitle className="text-lg">Status</CardTitle>
@@ -280,17 +836,62 @@ const Dashboard: React.FC = () => {
                     </div>
                   )}
                   {notFoundOrders.length > 0 && (
-                    <div className="text-red-600">
-                      Not found:{" "}
-                      <span className="font-semibold">
-                        {notFoundOrders.length}
-                      </span>
+                    <div className="text-red-600 space-y-1">
+                      <div>
+                        Not found:{" "}
+                        <span className="font-semibold">
+                          {notFoundOrders.length}
+                        </span>
+                      </div>
+                      <div className="bg-red-50 rounded p-2 max-h-32 overflow-y-auto font-mono text-xs break-all">
+                        {notFoundOrders.join(", ")}
+                      </div>
+                    </div>
+                  )}
+                  {unrequestedOrders.length > 0 && (
+                    <div className="text-amber-600 space-y-1">
+                      <div>
+                        Unrequested items returned:{" "}
+                        <span className="font-semibold">
+                          {unrequestedOrders.length}
+                        </span>
+                      </div>
+                      <div className="bg-amber-50 rounded p-2 max-h-32 overflow-y-auto font-mono text-xs break-all">
+                        {unrequestedOrders
+                          .map((u) => u.orderNumber || `#${u.id}`)
+                          .join(", ")}
+                      </div>
+                    </div>
+                  )}
+                  {skippedOrders.length > 0 && (
+                    <div className="text-gray-600 space-y-1">
+                      <div>
+                        Skipped by status:{" "}
+                        <span className="font-semibold">
+                          {skippedOrders.length}
+                        </span>
+                      </div>
+                      <div className="bg-gray-50 rounded p-2 max-h-32 overflow-y-auto font-mono text-xs break-all">
+                        {skippedOrders
+                          .map(
+                            (o) =>
+                              `${o.orderNumber || `#${o.id}`} (${o.status})`,
+                          )
+                          .join(", ")}
+                      </div>
                     </div>
                   )}
                 </CardContent>
               </Card>
             )}
 
+            <FailedBatchesCard
+              batches={searchResult?.failedBatches ?? []}
+              retrying={retryingBatch}
+              disabled={isSearching}
+              onRetry={handleRetryBatch}
+            />
+
             {/* Error Display */}
             {error && (
               <Alert className="border-red-200 bg-red-50">
@@ -306,9 +907,10 @@ const Dashboard: React.FC = () => {
                 <CardTitle className="text-lg">Logs</CardTitle>
                 <div className="flex gap-2">
                   <Button
-                    onClick={() => {
-                      clearOrderCache();
-                      addLog("Order cache cleared");
+                    onClick={async () => {
+                      const { entries } = await getCacheStats();
+                      await clearOrderCache();
+                      addLog(`Order cache cleared (${entries} entries)`);
                     }}
                     variant="outline"
                     size="sm"
@@ -348,6 +950,18 @@ const Dashboard: React.FC = () => {
             </Card>
           </div>
         </div>
+
+        {/* Results */}
+        {searchResult && (
+          <div className="mt-6">
+            <OrderResultsTable
+              result={searchResult}
+              excludedIds={excludedIds}
+              disabled={isSearching}
+              onExcludedChange={setExcludedIds}
+            />
+          </div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { PdfRenderOptions } from "@shared/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ViewPdfButton from "@/components/ViewPdfButton";
+import { getWBhToken } from "@/lib/cookieUtils";
+import { useLabelLayout, useLabelStamping } from "@/hooks/use-label-layout";
+import { usePrintTarget } from "@/hooks/use-print-target";
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  listHistory,
+  type PrintHistoryEntry,
+} from "@/lib/printHistory";
+
+// Order numbers shown inline before the list is cut off
+const ORDER_NUMBERS_PREVIEW = 5;
+
+/**
+ * Past printed batches with one-click re-download
+ */
+const History: React.FC = () => {
+  const { getTokens, logout } = useAuth();
+  const [entries, setEntries] = useState<PrintHistoryEntry[] | null>(null);
+  const [error, setError] = useState("");
+  const { idToken } = getTokens();
+  const [labelLayout] = useLabelLayout();
+  const [stamping] = useLabelStamping();
+  const [printTarget] = usePrintTarget();
+
+  const reload = async () => {
+    try {
+      setEntries(await listHistory());
+    } catch (error) {
+      setEntries([]);
+      setError(
+        `Could not read print history: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  // Re-download with the settings the batch was printed with; entries
+  // saved before those were recorded use the current settings
+  const historyRender = (entry: PrintHistoryEntry): PdfRenderOptions => {
+    const stamp = entry.stamp ?? stamping.stamp;
+    const coverPage = entry.coverPage ?? stamping.coverPage;
+    return {
+      layout: entry.layout ?? labelLayout,
+      stamp,
+      coverPage,
+      batchId: entry.batchId,
+      operator: entry.user,
+      // Older entries hold every searched number, not one per ID
+      orderNumbers:
+        (stamp || coverPage) && entry.orderNumbers.length === entry.ids.length
+          ? entry.orderNumbers
+          : undefined,
+    };
+  };
+
+  const handleDelete = async (id: number) => {
+    await deleteHistoryEntry(id);
+    await reload();
+  };
+
+  const handleClear = async () => {
+    await clearHistory();
+    await reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-semibold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              Print History
+            </h1>
+            <div className="flex gap-2">
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-300 hover:bg-gray-50"
+              >
+                <Link to="/">Dashboard</Link>
+              </Button>
+              <Button
+                onClick={logout}
+                variant="outline"
+                className="border-gray-300 hover:bg-gray-50"
+              >
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-6 space-y-6">
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-lg">
+              Printed batches{entries ? ` (${entries.length})` : ""}
+            </CardTitle>
+            <Button
+              onClick={handleClear}
+              variant="outline"
+              size="sm"
+              disabled={!entries || entries.length === 0}
+            >
+              Clear History
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {entries === null ? (
+              <div className="text-sm text-gray-500">Loading…</div>
+            ) : entries.length === 0 ? (
+              <div className="text-sm text-gray-500 text-center">
+                Batches appear here after a PDF is downloaded
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Printed</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Order numbers</TableHead>
+                    <TableHead className="text-right">IDs</TableHead>
+                    <TableHead className="text-right">Pages</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString()}
+                        {entry.batchId && (
+                          <div className="text-xs text-gray-500 font-mono">
+                            {entry.batchId}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{entry.user || "—"}</TableCell>
+                      <TableCell
+                        className="font-mono text-xs max-w-xs truncate"
+                        title={entry.orderNumbers.join(", ")}
+                      >
+                        {entry.orderNumbers
+                          .slice(0, ORDER_NUMBERS_PREVIEW)
+                          .join(", ")}
+                        {entry.orderNumbers.length > ORDER_NUMBERS_PREVIEW &&
+                          ` … (+${entry.orderNumbers.length - ORDER_NUMBERS_PREVIEW})`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.ids.length}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.pageCount ?? "—"}
+                        {entry.failedChunks > 0 && (
+                          <span className="ml-1 text-xs text-red-600">
+                            ({entry.failedChunks} part(s) failed)
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <ViewPdfButton
+                            idsEncoded={entry.ids.map(String).join("%2C")}
+                            idToken={idToken}
+                            wBh={getWBhToken() || undefined}
+                            render={historyRender(entry)}
+                            printTarget={printTarget}
+                            className="h-8"
+                            onError={setError}
+                          >
+                            Re-download
+                          </ViewPdfButton>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(entry.id)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default History;
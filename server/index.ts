@@ -2,15 +2,23 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { handlePdfProxy, handlePdfPreview } from "./routes/pdf";
+import {
+  handlePdfProxy,
+  handlePdfPost,
+  handlePdfPreview,
+  handlePdfZip,
+} from "./routes/pdf";
 import { handleFargoAuth } from "./routes/auth";
+import { handleResolveOrders } from "./routes/orders";
+import { handleZplLabels } from "./routes/zpl";
+import { handlePdfCachePurge, handlePdfCacheStats } from "./routes/admin";
 
 export function createServer() {
   const app = express();
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  app.use(express.json({ limit: "1mb" })); // Large ID batches in POST bodies
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -23,12 +31,27 @@ export function createServer() {
 
   // PDF proxy endpoint for cross-domain cookie handling
   app.get("/api/pdf", handlePdfProxy);
+  app.post("/api/pdf", handlePdfPost);
+
+  // One PDF per order, bundled as a ZIP archive
+  app.post("/api/pdf/zip", handlePdfZip);
+
+  // ZPL labels for Zebra thermal printers, built from order details
+  app.post("/api/zpl", handleZplLabels);
 
   // PDF preview endpoint for viewing PDFs inline in browser
   app.get("/api/pdf/preview", handlePdfPreview);
 
+  // Order number -> Shipox ID resolution (server-side Shipox search)
+  app.post("/api/orders/resolve", handleResolveOrders);
+
   // Fargo authentication endpoint to get w-bh token
   app.post("/api/auth/fargo", handleFargoAuth);
 
+  // PDF cache administration (requires X-Admin-Token matching ADMIN_TOKEN)
+  app.get("/api/admin/pdf-cache", handlePdfCacheStats);
+  app.delete("/api/admin/pdf-cache", handlePdfCachePurge);
+  app.delete("/api/admin/pdf-cache/:key", handlePdfCachePurge);
+
   return app;
 }
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { createPdfCache, pdfCacheKey, pdfCacheOwner } from "./pdfCache";
+
+const pdf = (size: number) => Buffer.alloc(size, 1);
+
+describe("pdfCacheKey", () => {
+  it("should ignore order, duplicates and whitespace", () => {
+    expect(pdfCacheKey(["3", " 1", "2", "1"], "mini")).toBe(
+      pdfCacheKey(["1", "2", "3"], "mini"),
+    );
+  });
+
+  it("should depend on the format", () => {
+    expect(pdfCacheKey(["1"], "mini")).not.toBe(pdfCacheKey(["1"], "full"));
+  });
+});
+
+describe("createPdfCache", () => {
+  it("should return entries only for the same print order", () => {
+    const cache = createPdfCache({ maxBytes: 100 });
+    const key = pdfCacheKey(["1", "2"], "mini");
+    cache.set(key, {
+      ids: ["1", "2"],
+      owner: "me",
+      buf: pdf(10),
+      pageCount: 2,
+    });
+
+    expect(cache.get(key, ["1", "2"], "me")?.pageCount).toBe(2);
+    expect(cache.get(key, ["2", "1"], "me")).toBeUndefined();
+  });
+
+  it("should not hand entries to another session", () => {
+    const cache = createPdfCache();
+    const owner = pdfCacheOwner("w-jwt=a; w-bh=b");
+    cache.set("k", { ids: ["1"], owner, buf: pdf(10) });
+
+    expect(cache.get("k", ["1"], owner)).toBeDefined();
+    expect(cache.get("k", ["1"], pdfCacheOwner("w-jwt=x"))).toBeUndefined();
+  });
+
+  it("should expire entries after the TTL", () => {
+    let now = 0;
+    const cache = createPdfCache({ ttlMs: 1000, now: () => now });
+    cache.set("k", { ids: ["1"], owner: "me", buf: pdf(10) });
+
+    now = 1000;
+    expect(cache.get("k", ["1"], "me")).toBeDefined();
+    now = 1001;
+    expect(cache.get("k", ["1"], "me")).toBeUndefined();
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it("should evict the least recently used entry when full", () => {
+    const cache = createPdfCache({ maxBytes: 25 });
+    cache.set("a", { ids: ["1"], owner: "me", buf: pdf(10) });
+    cache.set("b", { ids: ["2"], owner: "me", buf: pdf(10) });
+    cache.get("a", ["1"], "me");
+    cache.set("c", { ids: ["3"], owner: "me", buf: pdf(10) });
+
+    expect(cache.get("a", ["1"], "me")).toBeDefined();
+    expect(cache.get("b", ["2"], "me")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 20 });
+  });
+
+  it("should purge one key or everything", () => {
+    const cache = createPdfCache();
+    cache.set("a", { ids: ["1"], owner: "me", buf: pdf(10) });
+    cache.set("b", { ids: ["2"], owner: "me", buf: pdf(10) });
+
+    expect(cache.purge("a")).toBe(1);
+    expect(cache.purge("a")).toBe(0);
+    expect(cache.purge()).toBe(1);
+    expect(cache.stats()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash } from "crypto";
+import type { AirwaybillFormat } from "@shared/api";
+import { IS_SERVERLESS } from "./runtime";
+
+/**
+ * In-memory LRU cache of merged airwaybill PDFs
+ * Reprinting a batch is common (jammed printer, lost labels), so complete
+ * PDFs are kept for a while instead of re-fetching every chunk upstream.
+ * Entries are per server instance and vanish on restart, so the cache only
+ * pays off on a long-running server. It is off by default on serverless
+ * deployments, where each cold start begins empty and cached bytes count
+ * against the function's memory limit.
+ */
+
+/**
+ * How long an entry stays valid; override with PDF_CACHE_TTL_MS
+ */
+const DEFAULT_TTL_MS = Number(process.env.PDF_CACHE_TTL_MS) || 30 * 60 * 1000;
+
+/**
+ * Total size of cached PDFs; override with PDF_CACHE_MAX_MB (0 disables)
+ * Defaults to 200 MB, or 0 on serverless
+ */
+const DEFAULT_MAX_BYTES =
+  (process.env.PDF_CACHE_MAX_MB !== undefined
+    ? Number(process.env.PDF_CACHE_MAX_MB)
+    : IS_SERVERLESS
+      ? 0
+      : 200) *
+  1024 *
+  1024;
+
+export interface CachedPdf {
+  ids: string[]; // Order the pages were printed in
+  owner: string; // pdfCacheOwner of the session that fetched it
+  buf: Buffer;
+  pageCount?: number;
+  storedAt: number;
+}
+
+export interface PdfCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  ttlMs: number;
+}
+
+export interface PdfCacheOptions {
+  maxBytes?: number;
+  ttlMs?: number;
+  now?: () => number; // Clock override for tests
+}
+
+/**
+ * Cache key for an ID set and format
+ * IDs are deduplicated and sorted so the same batch maps to the same key
+ * whatever order or encoding it arrived in.
+ * @param ids - Shipox IDs
+ * @param format - Airwaybill format
+ * @returns Hex sha256 digest
+ */
+export function pdfCacheKey(ids: string[], format: AirwaybillFormat): string {
+  const sorted = [...new Set(ids.map((id) => id.trim()))]
+    .filter(Boolean)
+    .sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+
+  return createHash("sha256")
+    .update(`${format}:${sorted.join(",")}`)
+    .digest("hex");
+}
+
+/**
+ * Identify the upstream session a PDF was fetched with
+ * The proxy never validates tokens itself, so a cached PDF (recipient names,
+ * phones, addresses) is only handed back to the same w-jwt/w-bh session;
+ * anyone else goes upstream, where the session is checked.
+ * @param cookie - Cookie header sent to admin.fargo.uz
+ * @returns Hex sha256 digest
+ */
+export function pdfCacheOwner(cookie: string): string {
+  return createHash("sha256").update(cookie).digest("hex");
+}
+
+/**
+ * Create an LRU cache bounded by total bytes with a per-entry TTL
+ * Map insertion order doubles as recency: reads move the entry to the end
+ * and eviction removes from the front.
+ * @param opts - Size, TTL and clock overrides
+ * @returns Cache instance
+ */
+export function createPdfCache(opts: PdfCacheOptions = {}) {
+  const {
+    maxBytes = DEFAULT_MAX_BYTES,
+    ttlMs = DEFAULT_TTL_MS,
+    now = Date.now,
+  } = opts;
+  const entries = new Map<string, CachedPdf>();
+  let bytes = 0;
+
+  const remove = (key: string): boolean => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    bytes -= entry.buf.length;
+    entries.delete(key);
+    return true;
+  };
+
+  return {
+    /**
+     * Look up a PDF printed for exactly these IDs in this order
+     * An entry for the same set in a different order is a miss, since its
+     * pages would come out in the wrong sequence, and so is an entry fetched
+     * by another session.
+     * @param key - Key from pdfCacheKey
+     * @param ids - IDs in the requested order
+     * @param owner - pdfCacheOwner of the requesting session
+     * @returns Cached PDF, or undefined on a miss
+     */
+    get(key: string, ids: string[], owner: string): CachedPdf | undefined {
+      const entry = entries.get(key);
+      if (!entry || entry.owner !== owner) return undefined;
+
+      if (now() - entry.storedAt > ttlMs) {
+        remove(key);
+        return undefined;
+      }
+
+      if (
+        entry.ids.length !== ids.length ||
+        entry.ids.some((id, i) => id !== ids[i])
+      ) {
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+
+    /**
+     * Store a PDF, evicting least recently used entries to stay under the cap
+     * PDFs larger than the whole cache are not stored.
+     * @param key - Key from pdfCacheKey
+     * @param entry - IDs, owner, bytes and page count
+     */
+    set(key: string, entry: Omit<CachedPdf, "storedAt">): void {
+      remove(key);
+      if (entry.buf.length > maxBytes) return;
+
+      while (bytes + entry.buf.length > maxBytes && entries.size > 0) {
+        remove(entries.keys().next().value);
+      }
+
+      entries.set(key, { ...entry, storedAt: now() });
+      bytes += entry.buf.length;
+    },
+
+    /**
+     * Drop one entry, or everything when no key is given
+     * @param key - Key from pdfCacheKey
+     * @returns Number of entries removed
+     */
+    purge(key?: string): number {
+      if (key !== undefined) return remove(key) ? 1 : 0;
+
+      const count = entries.size;
+      entries.clear();
+      bytes = 0;
+      return count;
+    },
+
+    stats(): PdfCacheStats {
+      return { entries: entries.size, bytes, maxBytes, ttlMs };
+    },
+  };
+}
+
+export type PdfCache = ReturnType<typeof createPdfCache>;
+
+/**
+ * Shared cache used by the PDF proxy and the admin routes
+ */
+export const pdfCache = createPdfCache();
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  countPdfPages,
+  imposeLabels,
+  mergePdfs,
+  prependCoverPage,
+  splitPdf,
+  stampFooters,
+  toWinAnsi,
+} from "./pdfTools";
+
+/**
+ * Build a PDF whose pages have distinct widths so order can be asserted
+ */
+async function makePdf(widths: number[]): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (const width of widths) {
+    doc.addPage([width, 100]).drawText(String(width));
+  }
+  return Buffer.from(await doc.save());
+}
+
+describe("mergePdfs", () => {
+  it("should concatenate pages in the given order", async () => {
+    const merged = await mergePdfs([
+      await makePdf([101, 102]),
+      await makePdf([103]),
+    ]);
+    const doc = await PDFDocument.load(merged);
+    expect(doc.getPages().map((p) => p.getWidth())).toEqual([101, 102, 103]);
+  });
+
+  it("should return a single document unchanged", async () => {
+    const only = await makePdf([100]);
+    expect(await mergePdfs([only])).toBe(only);
+  });
+});
+
+describe("countPdfPages", () => {
+  it("should count pages and tolerate non-PDF bytes", async () => {
+    expect(await countPdfPages(await makePdf([100, 100, 100]))).toBe(3);
+    expect(await countPdfPages(Buffer.from("<html>login</html>"))).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("splitPdf", () => {
+  it("should split pages evenly across parts in order", async () => {
+    const parts = await splitPdf(await makePdf([101, 102, 103, 104]), 2);
+    const widths = await Promise.all(
+      parts.map(async (buf) =>
+        (await PDFDocument.load(buf)).getPages().map((p) => p.getWidth()),
+      ),
+    );
+    expect(widths).toEqual([
+      [101, 102],
+      [103, 104],
+    ]);
+  });
+
+  it("should reject page counts that do not match the parts", async () => {
+    await expect(splitPdf(await makePdf([100, 100, 100]), 2)).rejects.toThrow(
+      "PAGE_COUNT_MISMATCH",
+    );
+  });
+});
+
+describe("imposeLabels", () => {
+  it("should place four labels per A4 sheet", async () => {
+    const imposed = await imposeLabels(
+      await makePdf([100, 100, 100, 100, 100]),
+      "a4-4up",
+    );
+    const doc = await PDFDocument.load(imposed);
+    expect(doc.getPageCount()).toBe(2);
+    expect(Math.round(doc.getPage(0).getWidth())).toBe(595);
+    expect(Math.round(doc.getPage(0).getHeight())).toBe(842);
+  });
+
+  it("should leave single labels unchanged", async () => {
+    const labels = await makePdf([100, 100]);
+    expect(await imposeLabels(labels, "single")).toBe(labels);
+  });
+});
+
+describe("stampFooters", () => {
+  it("should keep every page and ask for a footer per page", async () => {
+    const seen: string[] = [];
+    const stamped = await stampFooters(await makePdf([300, 300]), (i, n) => {
+      seen.push(`${i + 1}/${n}`);
+      return `Batch B-1 | #A${i} | Иван`;
+    });
+    expect(await countPdfPages(stamped)).toBe(2);
+    expect(seen).toEqual(["1/2", "2/2"]);
+  });
+});
+
+describe("prependCoverPage", () => {
+  it("should add a first page sized like the labels", async () => {
+    const withCover = await prependCoverPage(
+      await makePdf([250, 250]),
+      "Batch",
+      ["Labels: 2"],
+    );
+    const doc = await PDFDocument.load(withCover);
+    expect(doc.getPageCount()).toBe(3);
+    expect(doc.getPage(0).getWidth()).toBe(250);
+  });
+});
+
+describe("toWinAnsi", () => {
+  it("should replace characters the standard fonts cannot encode", () => {
+    expect(toWinAnsi("Olim Иван ü")).toBe("Olim ???? ü");
+  });
+});
@@ -0,0 +1,282 @@
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import type { LabelLayout } from "@shared/api";
+
+/**
+ * PDF manipulation helpers used by the airwaybill proxy
+ * Built on pdf-lib so they run anywhere the server does (Node and Netlify)
+ */
+
+/**
+ * Merge several PDF documents into one, preserving the given order
+ * @param buffers - PDF files in the order their pages should appear
+ * @returns Merged PDF bytes
+ */
+export async function mergePdfs(buffers: Buffer[]): Promise<Buffer> {
+  if (buffers.length === 1) return buffers[0];
+
+  const merged = await PDFDocument.create();
+
+  for (const buf of buffers) {
+    const doc = await PDFDocument.load(buf, { ignoreEncryption: true });
+    const pages = await merged.copyPages(doc, doc.getPageIndices());
+    for (const page of pages) {
+      merged.addPage(page);
+    }
+  }
+
+  return Buffer.from(await merged.save());
+}
+
+/**
+ * Count the pages of a PDF document
+ * @param buf - PDF bytes
+ * @returns Page count, or undefined if the bytes are not a readable PDF
+ */
+export async function countPdfPages(buf: Buffer): Promise<number | undefined> {
+  try {
+    const doc = await PDFDocument.load(buf, { ignoreEncryption: true });
+    return doc.getPageCount();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a PDF into equal runs of pages, one document per part
+ * Upstream renders the airwaybills in the order the IDs were requested, so
+ * part i holds the labels of the i-th ID.
+ * @param buf - PDF bytes
+ * @param parts - Number of documents to produce
+ * @returns One PDF per part, in page order
+ * @throws Error("PAGE_COUNT_MISMATCH") when pages do not divide evenly
+ */
+export async function splitPdf(buf: Buffer, parts: number): Promise<Buffer[]> {
+  const doc = await PDFDocument.load(buf, { ignoreEncryption: true });
+  const pageCount = doc.getPageCount();
+
+  if (parts < 1 || pageCount === 0 || pageCount % parts !== 0) {
+    throw new Error("PAGE_COUNT_MISMATCH");
+  }
+
+  const pagesPerPart = pageCount / parts;
+  const out: Buffer[] = [];
+
+  for (let part = 0; part < parts; part++) {
+    const single = await PDFDocument.create();
+    const indices = Array.from(
+      { length: pagesPerPart },
+      (_, i) => part * pagesPerPart + i,
+    );
+    const pages = await single.copyPages(doc, indices);
+    for (const page of pages) {
+      single.addPage(page);
+    }
+    out.push(Buffer.from(await single.save()));
+  }
+
+  return out;
+}
+
+/**
+ * A4 portrait in PDF points
+ */
+const A4_SIZE: [number, number] = [595.28, 841.89];
+
+/**
+ * Blank border around the label grid on each sheet, in points
+ */
+const SHEET_MARGIN = 14;
+
+/**
+ * Label grid (columns x rows) for each multi-up layout
+ */
+const LAYOUT_GRIDS: Record<
+  Exclude<LabelLayout, "single">,
+  { cols: number; rows: number }
+> = {
+  "a4-2up": { cols: 1, rows: 2 },
+  "a4-4up": { cols: 2, rows: 2 },
+};
+
+/**
+ * Re-impose label pages onto A4 sheets for plain office printers
+ * Labels are centered in their grid cell and only ever scaled down, so a
+ * label that fits prints at its original size; dashed cut marks separate
+ * the cells. The "single" layout returns the input unchanged.
+ * @param buf - PDF with one label per page
+ * @param layout - Target layout
+ * @returns PDF bytes in the requested layout
+ */
+export async function imposeLabels(
+  buf: Buffer,
+  layout: LabelLayout,
+): Promise<Buffer> {
+  if (layout === "single") return buf;
+
+  const { cols, rows } = LAYOUT_GRIDS[layout];
+  const [sheetWidth, sheetHeight] = A4_SIZE;
+  const cellWidth = (sheetWidth - 2 * SHEET_MARGIN) / cols;
+  const cellHeight = (sheetHeight - 2 * SHEET_MARGIN) / rows;
+  const perSheet = cols * rows;
+
+  const src = await PDFDocument.load(buf, { ignoreEncryption: true });
+  const out = await PDFDocument.create();
+  // Blank pages have no content stream and cannot be embedded; they keep
+  // their slot on the sheet so labels stay in order
+  const labels = await Promise.all(
+    src
+      .getPages()
+      .map((page) => (page.node.Contents() ? out.embedPage(page) : null)),
+  );
+
+  for (let first = 0; first < labels.length; first += perSheet) {
+    const sheet = out.addPage(A4_SIZE);
+
+    labels.slice(first, first + perSheet).forEach((label, slot) => {
+      if (!label) return;
+      const col = slot % cols;
+      const row = Math.floor(slot / cols); // Row 0 is the top of the sheet
+      const scale = Math.min(
+        cellWidth / label.width,
+        cellHeight / label.height,
+        1,
+      );
+      const width = label.width * scale;
+      const height = label.height * scale;
+
+      sheet.drawPage(label, {
+        x: SHEET_MARGIN + col * cellWidth + (cellWidth - width) / 2,
+        y:
+          sheetHeight -
+          SHEET_MARGIN -
+          (row + 1) * cellHeight +
+          (cellHeight - height) / 2,
+        width,
+        height,
+      });
+    });
+
+    const cutMark = {
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+      dashArray: [4, 4],
+    };
+    for (let col = 1; col < cols; col++) {
+      const x = SHEET_MARGIN + col * cellWidth;
+      sheet.drawLine({
+        start: { x, y: 0 },
+        end: { x, y: sheetHeight },
+        ...cutMark,
+      });
+    }
+    for (let row = 1; row < rows; row++) {
+      const y = sheetHeight - SHEET_MARGIN - row * cellHeight;
+      sheet.drawLine({
+        start: { x: 0, y },
+        end: { x: sheetWidth, y },
+        ...cutMark,
+      });
+    }
+  }
+
+  return Buffer.from(await out.save());
+}
+
+/**
+ * Make text printable with the standard (WinAnsi) fonts
+ * Characters outside Latin-1, e.g. Cyrillic operator names, become "?"
+ * rather than failing the whole PDF.
+ * @param text - Any text
+ * @returns Text safe for drawText with Helvetica
+ */
+export function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+/**
+ * Overlay a one-line footer at the bottom of every page
+ * @param buf - PDF bytes
+ * @param footerFor - Footer text for a zero-based page index
+ * @returns PDF bytes with footers
+ */
+export async function stampFooters(
+  buf: Buffer,
+  footerFor: (pageIndex: number, pageCount: number) => string,
+): Promise<Buffer> {
+  const doc = await PDFDocument.load(buf, { ignoreEncryption: true });
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const pages = doc.getPages();
+
+  pages.forEach((page, index) => {
+    const { width } = page.getSize();
+    const size = Math.min(7, width / 50);
+    let text = toWinAnsi(footerFor(index, pages.length));
+
+    // Trim from the end until the footer fits the page width
+    while (text && font.widthOfTextAtSize(text, size) > width - 8) {
+      text = text.slice(0, -2) + "…";
+    }
+
+    page.drawText(text, {
+      x: 4,
+      y: 3,
+      size,
+      font,
+      color: rgb(0.25, 0.25, 0.25),
+    });
+  });
+
+  return Buffer.from(await doc.save());
+}
+
+/**
+ * Insert a summary page in front of the document, sized like its first page
+ * Lines that do not fit are cut off with a final "…" line.
+ * @param buf - PDF bytes
+ * @param title - Heading
+ * @param lines - Body lines, printed top to bottom
+ * @returns PDF bytes with the cover page first
+ */
+export async function prependCoverPage(
+  buf: Buffer,
+  title: string,
+  lines: string[],
+): Promise<Buffer> {
+  const doc = await PDFDocument.load(buf, { ignoreEncryption: true });
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const first = doc.getPageCount() > 0 ? doc.getPage(0).getSize() : null;
+  const [width, height] = first ? [first.width, first.height] : A4_SIZE;
+  const cover = doc.insertPage(0, [width, height]);
+
+  const margin = Math.min(36, width / 12);
+  const titleSize = Math.min(18, width / 16);
+  const size = Math.min(10, width / 30);
+  const lineHeight = size * 1.4;
+
+  cover.drawText(toWinAnsi(title), {
+    x: margin,
+    y: height - margin - titleSize,
+    size: titleSize,
+    font: bold,
+  });
+
+  let y = height - margin - titleSize * 2.2;
+  const lastY = margin + lineHeight;
+  for (let i = 0; i < lines.length; i++) {
+    if (y < lastY && i < lines.length - 1) {
+      cover.drawText(`… ${lines.length - i} more`, {
+        x: margin,
+        y,
+        size,
+        font,
+      });
+      break;
+    }
+    cover.drawText(toWinAnsi(lines[i]), { x: margin, y, size, font });
+    y -= lineHeight;
+  }
+
+  return Buffer.from(await doc.save());
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { parseJobId, parsePrinters } from "./printAgent";
+
+describe("parsePrinters", () => {
+  it("should list queues and mark the default", () => {
+    expect(
+      parsePrinters(
+        "Zebra_ZD421\nOffice_A4\n",
+        "system default destination: Office_A4\n",
+      ),
+    ).toEqual([
+      { name: "Zebra_ZD421", isDefault: false },
+      { name: "Office_A4", isDefault: true },
+    ]);
+  });
+
+  it("should handle no default printer", () => {
+    expect(parsePrinters("Zebra\n", "")).toEqual([
+      { name: "Zebra", isDefault: false },
+    ]);
+  });
+});
+
+describe("parseJobId", () => {
+  it("should read the request id from lp output", () => {
+    expect(parseJobId("request id is Zebra_ZD421-42 (1 file(s))\n")).toBe(
+      "Zebra_ZD421-42",
+    );
+    expect(parseJobId("")).toBe("");
+  });
+});
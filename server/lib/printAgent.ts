@@ -0,0 +1,88 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { AgentPrinter } from "@shared/api";
+
+/**
+ * CUPS helpers for the local print agent (server/print-agent.ts)
+ * Printing goes through the lp/lpstat command line tools, which ship with
+ * macOS and most Linux desktops; arguments are passed without a shell.
+ */
+
+const run = promisify(execFile);
+
+/**
+ * Upper bound on copies per job, so a typo cannot empty the label stock
+ */
+export const MAX_COPIES = 20;
+
+/**
+ * Parse `lpstat -e` (one queue per line) and `lpstat -d` output
+ * @param queues - stdout of `lpstat -e`
+ * @param defaultLine - stdout of `lpstat -d`
+ * @returns Printers with the system default marked
+ */
+export function parsePrinters(
+  queues: string,
+  defaultLine: string,
+): AgentPrinter[] {
+  // "system default destination: Zebra_ZD421" (absent when none is set)
+  const defaultName = defaultLine.match(/destination:\s*(\S+)/)?.[1];
+
+  return queues
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((name) => ({ name, isDefault: name === defaultName }));
+}
+
+/**
+ * Parse the job ID from `lp` output
+ * @param stdout - e.g. "request id is Zebra_ZD421-42 (1 file(s))"
+ * @returns Job ID, or an empty string when lp printed something else
+ */
+export function parseJobId(stdout: string): string {
+  return stdout.match(/request id is (\S+)/)?.[1] ?? "";
+}
+
+/**
+ * List CUPS printers
+ * @returns Printers, empty when none are configured
+ * @throws Error("PRINTING_UNAVAILABLE") when lpstat is not installed
+ */
+export async function listPrinters(): Promise<AgentPrinter[]> {
+  try {
+    const queues = await run("lpstat", ["-e"]);
+    // lpstat -d exits non-zero when no default is set
+    const defaults = await run("lpstat", ["-d"]).catch(() => ({ stdout: "" }));
+    return parsePrinters(queues.stdout, defaults.stdout);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error("PRINTING_UNAVAILABLE");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send a PDF file to a printer
+ * @param file - Path of the PDF to print
+ * @param printer - CUPS queue name, or undefined for the system default
+ * @param copies - Number of copies (1..MAX_COPIES)
+ * @returns CUPS job ID
+ */
+export async function printFile(
+  file: string,
+  printer: string | undefined,
+  copies: number,
+): Promise<string> {
+  const args = [
+    ...(printer ? ["-d", printer] : []),
+    "-n",
+    String(copies),
+    "-t",
+    "Airwaybills",
+    file,
+  ];
+  const { stdout } = await run("lp", args);
+  return parseJobId(stdout);
+}
@@ -0,0 +1,14 @@
+/**
+ * Where the server is running
+ * Netlify deploys it as a function (netlify/functions/api.ts on AWS Lambda):
+ * every cold start begins with empty memory, instances are not shared and
+ * serverless-http buffers each response before returning it.
+ */
+
+/**
+ * Whether the server runs as a serverless function rather than a
+ * long-running process (npm start, the Vite dev server)
+ */
+export const IS_SERVERLESS = Boolean(
+  process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.NETLIFY,
+);
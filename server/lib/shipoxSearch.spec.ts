@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  parseRetryAfter,
+  resolveOrderNumbers,
+  retryDelay,
+} from "./shipoxSearch";
+
+/**
+ * Shipox response listing one item per searched order number
+ */
+function shipoxPage(url: string): Response {
+  const search = new URL(url).searchParams.get("search") ?? "";
+  const list = search
+    .split(",")
+    .map((n) => ({ id: 1000 + Number(n), order_number: n }));
+  return new Response(JSON.stringify({ data: { list, total: list.length } }));
+}
+
+describe("parseRetryAfter", () => {
+  it("should accept seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    const inOneMinute = new Date(Date.now() + 60000).toUTCString();
+    expect(parseRetryAfter(inOneMinute)).toBeGreaterThan(50000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("retryDelay", () => {
+  it("should never wait less than Retry-After", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(retryDelay(2, 1500)).toBe(1500);
+    vi.restoreAllMocks();
+  });
+
+  it("should cap the exponential backoff", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect(retryDelay(20)).toBeLessThanOrEqual(10000);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("resolveOrderNumbers", () => {
+  beforeEach(() => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should retry transient failures", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockImplementation(async (url: string) => shipoxPage(url));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await resolveOrderNumbers(["1", "2"], "token");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.ids).toEqual([1001, 1002]);
+    expect(result.failedBatches).toEqual([]);
+    expect(result.stats.batches).toMatchObject([
+      { size: 2, items: 2, attempts: 2, failed: false },
+    ]);
+  });
+
+  it("should keep other batches when one keeps failing", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url.includes("search=2")
+          ? new Response("", { status: 500 })
+          : shipoxPage(url),
+      ),
+    );
+
+    const result = await resolveOrderNumbers(["1", "2", "3"], "token", {
+      batchSize: 1,
+      maxRetries: 1,
+    });
+
+    expect(result.ids).toEqual([1001, 1003]);
+    expect(result.notFound).toEqual([]);
+    expect(result.failedBatches).toEqual([
+      {
+        orderNumbers: ["2"],
+        searchType: "order_number",
+        error: "SEARCH_FAILED_500",
+        attempts: 2,
+      },
+    ]);
+  });
+
+  it("should time out each page on its own", async () => {
+    // Hangs until the page controller aborts the request
+    const hang = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal.addEventListener("abort", () => reject(new Error("abort")));
+      });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit) =>
+        url.includes("search=2") ? hang(url, init) : shipoxPage(url),
+      ),
+    );
+
+    const result = await resolveOrderNumbers(["1", "2"], "token", {
+      batchSize: 1,
+      maxRetries: 0,
+      pageTimeoutMs: 20,
+    });
+
+    expect(result.ids).toEqual([1001]);
+    expect(result.failedBatches).toEqual([
+      {
+        orderNumbers: ["2"],
+        searchType: "order_number",
+        error: "SEARCH_TIMEOUT_PAGE",
+        attempts: 1,
+      },
+    ]);
+  });
+
+  it("should route auto-detected tokens to their own search type", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const list =
+        params.get("search_type") === "phone"
+          ? [
+              {
+                id: 7,
+                order_number: "70",
+                recipient_data: { phone: "+998901234567" },
+              },
+            ]
+          : [{ id: 5, order_number: "50", reference_id: "REF-5" }];
+      return new Response(JSON.stringify({ data: { list, total: 1 } }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await resolveOrderNumbers(
+      ["REF-5", "998901234567"],
+      "token",
+      { searchType: "auto", sortBy: "input" },
+    );
+
+    const searchTypes = fetchMock.mock.calls.map(([url]) =>
+      new URL(url).searchParams.get("search_type"),
+    );
+    expect(searchTypes.sort()).toEqual(["phone", "reference_id"]);
+    expect(result.orders).toEqual([
+      { orderNumber: "REF-5", id: 5 },
+      {
+        orderNumber: "998901234567",
+        id: 7,
+        recipientPhone: "+998901234567",
+      },
+    ]);
+    expect(result.notFound).toEqual([]);
+  });
+
+  it("should fail the whole search on 401", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 401 })),
+    );
+
+    await expect(resolveOrderNumbers(["1"], "token")).rejects.toThrow(
+      "UNAUTHORIZED_401",
+    );
+  });
+});
@@ -0,0 +1,632 @@
+/**
+ * Server-side order search against the Shipox API
+ * Handles large inputs with pagination, batching, and controlled concurrency
+ */
+
+import type {
+  FailedBatch,
+  SearchProgress,
+  SearchResult,
+  SearchStats,
+  SearchType,
+  SearchTypeOption,
+  SortMode,
+} from "@shared/api";
+import {
+  dedupePreserveOrder,
+  groupBySearchType,
+  matchRequestedOrders,
+  reconcileOrderNumbers,
+  SHIPOX_SEARCH_TYPES,
+  sortOrderItems,
+  type OrderItem,
+} from "@shared/orderNumbers";
+import { runWorkerPool, type PoolResult } from "@shared/workerPool";
+
+// Debug flag for development logging
+const DEBUG = false;
+
+const API_URL = "https://api-gateway.shipox.com/api/v2/admin/orders";
+
+// Marketplace the admin token is scoped to; override per deployment
+const MARKETPLACE_ID = process.env.SHIPOX_MARKETPLACE_ID || "307345429";
+
+// API response structure
+type SearchResponse = {
+  data?: {
+    list: OrderItem[];
+    total?: number;
+  };
+  list?: OrderItem[];
+  total?: number;
+};
+
+// Configuration options for resolveOrderNumbers
+export interface ResolveOptions {
+  batchSize?: number;
+  concurrency?: number;
+  sortBy?: SortMode; // Default: "response" (API order, batch by batch)
+  searchType?: SearchTypeOption; // Default: "order_number"
+  signal?: AbortSignal; // Aborts in-flight Shipox requests
+  onProgress?: (progress: SearchProgress) => void; // Called after each batch
+  maxRetries?: number; // Retries per batch for 429/5xx/network errors (default 3)
+  pageTimeoutMs?: number; // Limit for each Shipox page request (default 30s)
+  totalTimeoutMs?: number; // Deadline for the whole search (default: none)
+}
+
+// Tokens sent in one Shipox search request
+type SearchBatch = {
+  searchType: SearchType;
+  orderNumbers: string[];
+};
+
+// Outcome of one batch as collected by the worker pool
+type BatchOutcome = {
+  items: OrderItem[];
+  attempts: number; // 0 if the batch never ran
+  failed: boolean;
+};
+
+// Default limit for a single Shipox page request
+const DEFAULT_PAGE_TIMEOUT_MS = 30000;
+
+// Backoff settings for batch retries
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 10000;
+
+// Error thrown for a failed Shipox request; retryAfterMs mirrors Retry-After
+type SearchFailure = Error & { retryAfterMs?: number };
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date)
+ * @param value - Header value
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isFinite(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Decide whether a failed batch is worth retrying
+ * Rate limits, server errors, timeouts and network failures are transient;
+ * auth errors, other 4xx and cancellation are not.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.message === "UNAUTHORIZED_401") return false;
+  if (error.message === "SEARCH_ABORTED") return false;
+  if (error.message === "SEARCH_TIMEOUT_TOTAL") return false;
+
+  const match = /^SEARCH_FAILED_(\d+)$/.exec(error.message);
+  if (match) {
+    const status = Number(match[1]);
+    return status === 429 || status >= 500;
+  }
+
+  // fetch() network errors and per-request timeouts
+  return true;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with full jitter,
+ * never shorter than the server's Retry-After
+ * @param attempt - Zero-based number of the failed attempt
+ * @param retryAfterMs - Delay requested by the server, if any
+ */
+export function retryDelay(attempt: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** attempt,
+  );
+  const jittered = Math.random() * ceiling;
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/**
+ * Error for an aborted search signal
+ * The search aborts its signal with the error code as reason
+ * (SEARCH_ABORTED or SEARCH_TIMEOUT_TOTAL).
+ */
+function abortError(signal: AbortSignal): Error {
+  return new Error(
+    typeof signal.reason === "string" ? signal.reason : "SEARCH_ABORTED",
+  );
+}
+
+/**
+ * Sleep that wakes up early (with the abort reason) when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Search single batch with pagination support
+ * @param orderNumbers - Array of order numbers for this batch
+ * @param searchType - Field the batch's tokens are searched by
+ * @param token - Authorization token
+ * @param pageTimeoutMs - Limit for each page request
+ * @param signal - Optional signal that cancels the batch
+ * @returns Promise with collected results from all pages
+ */
+async function searchBatchWithPagination(
+  orderNumbers: string[],
+  searchType: SearchType,
+  token: string,
+  pageTimeoutMs: number,
+  signal?: AbortSignal,
+): Promise<{ items: OrderItem[]; requestedSet: Set<string> }> {
+  const requestedSet = new Set(orderNumbers.map((n) => String(n)));
+  let allItems: OrderItem[] = [];
+  let page = 0;
+  let totalCollected = 0;
+  let apiTotal: number | undefined;
+
+  if (DEBUG) {
+    console.log(
+      `🔍 Starting batch search for ${orderNumbers.length} order numbers`,
+    );
+  }
+
+  while (true) {
+    // Build query parameters
+    const params = new URLSearchParams({
+      size: String(Math.min(orderNumbers.length, 500)),
+      page: String(page),
+      search: orderNumbers.join(","), // CSV - URLSearchParams will encode commas as %2C
+      search_type: SHIPOX_SEARCH_TYPES[searchType],
+      use_solr: "true",
+    });
+
+    const url = `${API_URL}?${params.toString()}`;
+
+    if (DEBUG) {
+      console.log(`📄 Fetching page ${page} for batch...`);
+    }
+
+    // Fresh timeout for every page; caller cancellation aborts it too
+    const controller = new AbortController();
+    let pageTimedOut = false;
+    const timeoutId = setTimeout(() => {
+      pageTimedOut = true;
+      controller.abort();
+    }, pageTimeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let data: SearchResponse;
+    try {
+      // Make HTTP request
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          accept: "application/json",
+          marketplace_id: MARKETPLACE_ID,
+        },
+        signal: controller.signal,
+      });
+
+      // Handle response codes
+      if (response.status === 401) {
+        throw new Error("UNAUTHORIZED_401");
+      }
+
+      if (!response.ok) {
+        const failure: SearchFailure = new Error(
+          `SEARCH_FAILED_${response.status}`,
+        );
+        failure.retryAfterMs = parseRetryAfter(
+          response.headers.get("retry-after"),
+        );
+        throw failure;
+      }
+
+      data = await response.json();
+    } catch (error) {
+      if (signal?.aborted) throw abortError(signal);
+      if (pageTimedOut) throw new Error("SEARCH_TIMEOUT_PAGE");
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    // Extract list and total from response (handle both formats)
+    const list = data?.data?.list ?? data?.list ?? [];
+    const total = data?.data?.total ?? data?.total;
+
+    if (apiTotal === undefined && total !== undefined) {
+      apiTotal = total;
+    }
+
+    if (DEBUG) {
+      console.log(
+        `📦 Page ${page}: ${list.length} items, total: ${total}, collected: ${totalCollected}`,
+      );
+
+      // Debug first item structure to understand API response format
+      if (list.length > 0 && page === 0) {
+        const firstItem = list[0];
+        console.log(`🔍 First API item structure:`, {
+          id: firstItem.id,
+          order_number: firstItem.order_number,
+          availableFields: Object.keys(firstItem).slice(0, 10), // Show first 10 fields
+        });
+      }
+    }
+
+    // Add items to collection
+    allItems = allItems.concat(list);
+    totalCollected += list.length;
+
+    // Stop conditions:
+    // 1. Empty page (no more results)
+    // 2. We've collected >= total (if available)
+    // 3. Current page returned less than requested size (last page)
+    if (list.length === 0) {
+      if (DEBUG) console.log(`✅ Stopping: empty page`);
+      break;
+    }
+
+    if (apiTotal !== undefined && totalCollected >= apiTotal) {
+      if (DEBUG)
+        console.log(
+          `✅ Stopping: collected ${totalCollected} >= total ${apiTotal}`,
+        );
+      break;
+    }
+
+    if (list.length < Math.min(orderNumbers.length, 500)) {
+      if (DEBUG)
+        console.log(
+          `✅ Stopping: partial page (${list.length} < ${Math.min(orderNumbers.length, 500)})`,
+        );
+      break;
+    }
+
+    page++;
+  }
+
+  if (DEBUG) {
+    console.log(`🎯 Batch complete: ${allItems.length} total items collected`);
+  }
+
+  return { items: allItems, requestedSet };
+}
+
+/**
+ * Search one batch, retrying transient failures with jittered backoff
+ * @param orderNumbers - Array of order numbers for this batch
+ * @param searchType - Field the batch's tokens are searched by
+ * @param token - Authorization token
+ * @param maxRetries - Retries after the first attempt
+ * @param pageTimeoutMs - Limit for each page request
+ * @param signal - Optional signal that cancels the batch
+ * @returns Promise with collected items and the number of attempts made
+ */
+async function searchBatchWithRetry(
+  orderNumbers: string[],
+  searchType: SearchType,
+  token: string,
+  maxRetries: number,
+  pageTimeoutMs: number,
+  signal?: AbortSignal,
+): Promise<{ items: OrderItem[]; attempts: number }> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { items } = await searchBatchWithPagination(
+        orderNumbers,
+        searchType,
+        token,
+        pageTimeoutMs,
+        signal,
+      );
+      return { items, attempts: attempt + 1 };
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        if (error instanceof Error) {
+          (error as SearchFailure & { attempts?: number }).attempts =
+            attempt + 1;
+        }
+        throw error;
+      }
+
+      const delay = retryDelay(attempt, (error as SearchFailure).retryAfterMs);
+      console.warn(
+        `[search] batch of ${orderNumbers.length} failed (${error instanceof Error ? error.message : error}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)} ms`,
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Process batch results: extract all IDs from list
+ * @param items - All collected items from API
+ * @param requestedSet - Set of requested order numbers (unused now, kept for compatibility)
+ * @returns Processed results with IDs only
+ */
+function processBatchResults(
+  items: OrderItem[],
+  requestedSet: Set<string>,
+): { ids: number[] } {
+  if (DEBUG) {
+    console.log(`📦 Processing ${items.length} items from API response`);
+  }
+
+  // Extract all IDs from the list (no filtering needed, just take all id fields)
+  const ids = items
+    .map((item) => Number(item.id))
+    .filter((n) => Number.isFinite(n)); // Only filter out invalid numbers
+
+  if (DEBUG) {
+    console.log(`🔢 Extracted ${ids.length} valid IDs from response`);
+  }
+
+  return { ids };
+}
+
+/**
+ * Main function: search with pagination, batching, and controlled concurrency
+ * @param requested - Order numbers to resolve
+ * @param token - Shipox authorization token
+ * @param opts - Options for batch size, concurrency and sorting
+ * @returns Promise with comprehensive search results
+ */
+export async function resolveOrderNumbers(
+  requested: string[],
+  token: string,
+  opts: ResolveOptions = {},
+): Promise<SearchResult> {
+  const {
+    batchSize = 450,
+    concurrency = 6,
+    sortBy = "response",
+    searchType = "order_number",
+    signal: callerSignal,
+    onProgress,
+    maxRetries = 3,
+    pageTimeoutMs = DEFAULT_PAGE_TIMEOUT_MS,
+    totalTimeoutMs,
+  } = opts;
+
+  // Step 1: Trim and deduplicate (clients normally send normalized input)
+  const orderNumbers = dedupePreserveOrder(
+    requested.map((n) => n.trim()).filter(Boolean),
+  );
+
+  if (orderNumbers.length === 0) {
+    return {
+      ids: [],
+      idsEncoded: "",
+      notFound: [],
+      unrequested: [],
+      orders: [],
+      failedBatches: [],
+    };
+  }
+
+  if (DEBUG) {
+    console.log(
+      `🚀 Starting resolveOrderNumbers for ${orderNumbers.length} order numbers`,
+    );
+    console.log(
+      `⚙️ Config: batchSize=${batchSize}, concurrency=${concurrency}, sortBy=${sortBy}, searchType=${searchType}`,
+    );
+  }
+
+  // Step 2: Split into batches to avoid URL length issues. Shipox searches
+  // one field per request, so each search type gets its own batches.
+  const batches: SearchBatch[] = [];
+  const groups = groupBySearchType(orderNumbers, searchType);
+  for (const type of Object.keys(groups) as SearchType[]) {
+    const tokens = groups[type];
+    for (let i = 0; i < tokens.length; i += batchSize) {
+      batches.push({
+        searchType: type,
+        orderNumbers: tokens.slice(i, i + batchSize),
+      });
+    }
+  }
+
+  if (DEBUG) {
+    console.log(`📦 Split into ${batches.length} batches`);
+  }
+
+  // One signal for the whole search: aborted with SEARCH_ABORTED when the
+  // caller cancels and with SEARCH_TIMEOUT_TOTAL when the deadline passes
+  const searchController = new AbortController();
+  const signal = searchController.signal;
+  const onCallerAbort = () => searchController.abort("SEARCH_ABORTED");
+  if (callerSignal?.aborted) onCallerAbort();
+  callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+  const deadlineId =
+    totalTimeoutMs > 0
+      ? setTimeout(
+          () => searchController.abort("SEARCH_TIMEOUT_TOTAL"),
+          totalTimeoutMs,
+        )
+      : undefined;
+
+  // Step 3: Process batches through a sliding-window pool so a slow batch
+  // only occupies its own slot
+  const failedBatches: FailedBatch[] = []; // Batches that exhausted retries
+  const progress: SearchProgress = {
+    batchesCompleted: 0,
+    batchesTotal: batches.length,
+    itemsCollected: 0,
+  };
+
+  onProgress?.({ ...progress });
+
+  // A batch that still fails after retries is recorded instead of discarding
+  // the other results; auth errors and cancellation fail the whole search.
+  const runBatch = async (batch: SearchBatch): Promise<BatchOutcome> => {
+    if (signal.aborted) {
+      const error = abortError(signal);
+
+      // Past the deadline: report what is left as failed so it can be retried
+      if (error.message === "SEARCH_TIMEOUT_TOTAL") {
+        failedBatches.push({ ...batch, error: error.message, attempts: 0 });
+        return { items: [], attempts: 0, failed: true };
+      }
+
+      throw error;
+    }
+
+    let outcome: BatchOutcome;
+
+    try {
+      const { items, attempts } = await searchBatchWithRetry(
+        batch.orderNumbers,
+        batch.searchType,
+        token,
+        maxRetries,
+        pageTimeoutMs,
+        signal,
+      );
+      outcome = { items, attempts, failed: false };
+    } catch (error) {
+      if (
+        !(error instanceof Error) ||
+        error.message === "UNAUTHORIZED_401" ||
+        error.message === "SEARCH_ABORTED"
+      ) {
+        throw error;
+      }
+
+      const attempts = (error as { attempts?: number }).attempts ?? 1;
+      failedBatches.push({ ...batch, error: error.message, attempts });
+      outcome = { items: [], attempts, failed: true };
+    }
+
+    progress.batchesCompleted++;
+    progress.itemsCollected += outcome.items.length;
+    onProgress?.({ ...progress });
+
+    return outcome;
+  };
+
+  let pool: PoolResult<BatchOutcome>;
+  try {
+    pool = await runWorkerPool(batches, concurrency, runBatch);
+  } finally {
+    clearTimeout(deadlineId);
+    callerSignal?.removeEventListener("abort", onCallerAbort);
+  }
+
+  // Results come back in batch order, whatever order batches finished in
+  const allAPIResponses = pool.results.flatMap((r) => r.items);
+  const stats: SearchStats = {
+    batchSize,
+    concurrency,
+    totalMs: pool.totalMs,
+    batches: pool.results.map((r, index) => ({
+      size: batches[index].orderNumbers.length,
+      items: r.items.length,
+      attempts: r.attempts,
+      startMs: pool.timings[index].startMs,
+      durationMs: pool.timings[index].durationMs,
+      failed: r.failed,
+    })),
+  };
+
+  // Step 4: Order items (batches complete in parallel, so response order is
+  // not input order), extract IDs and deduplicate while preserving order
+  const orderedItems = sortOrderItems(
+    allAPIResponses,
+    orderNumbers,
+    sortBy,
+    searchType,
+  );
+  const { ids: allIds } = processBatchResults(
+    orderedItems,
+    new Set(orderNumbers),
+  );
+  const uniqueIds = dedupePreserveOrder(allIds);
+
+  // Step 5: Create encoded string for PDF (strictly no spaces, %2C separator)
+  const idsEncoded = uniqueIds.map(String).join("%2C");
+
+  // Step 6: Reconcile each requested number against returned order_number
+  // values. Unrequested items keep their IDs in the result but are flagged
+  // so the caller can review them before printing.
+  // Numbers from failed batches were never searched, so they are reported
+  // through failedBatches rather than as "not found".
+  const unsearched = new Set(failedBatches.flatMap((b) => b.orderNumbers));
+  const { notFound, unrequested } = reconcileOrderNumbers(
+    orderNumbers.filter((n) => !unsearched.has(n)),
+    allAPIResponses,
+    searchType,
+  );
+
+  if (DEBUG) {
+    console.log(
+      `🎯 Final results: ${uniqueIds.length} unique IDs found, ${notFound.length} not found`,
+    );
+    console.log(
+      `📋 Encoded IDs: ${idsEncoded.substring(0, 100)}${idsEncoded.length > 100 ? "..." : ""}`,
+    );
+
+    // Debug info
+    console.log(`🔍 Debug info:`);
+    console.log(`  Requested order numbers: ${orderNumbers.length}`);
+    console.log(`  API returned items: ${allAPIResponses.length}`);
+    console.log(`  Extracted unique IDs: ${uniqueIds.length}`);
+
+    if (allAPIResponses.length > 0) {
+      const firstItem = allAPIResponses[0];
+      console.log(`  Sample API item:`, {
+        id: firstItem.id,
+        order_number: firstItem.order_number,
+      });
+    }
+
+    if (notFound.length > 0) {
+      console.log(`❌ Not found: ${notFound.join(", ")}`);
+    }
+    if (unrequested.length > 0) {
+      console.log(
+        `⚠️ Unrequested items: ${unrequested.map((u) => u.id).join(", ")}`,
+      );
+    }
+  }
+
+  return {
+    ids: uniqueIds,
+    idsEncoded,
+    notFound,
+    unrequested,
+    orders: matchRequestedOrders(orderNumbers, orderedItems, searchType),
+    failedBatches: failedBatches.sort(
+      (a, b) =>
+        orderNumbers.indexOf(a.orderNumbers[0]) -
+        orderNumbers.indexOf(b.orderNumbers[0]),
+    ),
+    stats,
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { buildZplDocument, buildZplLabel, escapeZplField } from "./zpl";
+
+describe("escapeZplField", () => {
+  it("should hex-escape characters that start ZPL commands", () => {
+    expect(escapeZplField("A^B~C_D\nE")).toBe("A_5EB_7EC_5FD E");
+  });
+});
+
+describe("buildZplLabel", () => {
+  it("should encode the order number in a Code 128 barcode", () => {
+    const zpl = buildZplLabel({
+      id: 42,
+      orderNumber: "AB-100",
+      recipientName: "Dilnoza",
+      city: "Tashkent",
+      codAmount: 150000,
+    });
+
+    expect(zpl.startsWith("^XA")).toBe(true);
+    expect(zpl.endsWith("^XZ")).toBe(true);
+    expect(zpl).toContain("^BCN,180,Y,N,N^FH^FDAB-100^FS");
+    expect(zpl).toContain("To: Dilnoza");
+    expect(zpl).toContain("COD: 150,000");
+  });
+
+  it("should leave out missing details", () => {
+    const zpl = buildZplLabel({ id: 1, orderNumber: "1" });
+    expect(zpl).not.toContain("To:");
+    expect(zpl).not.toContain("COD:");
+  });
+});
+
+describe("buildZplDocument", () => {
+  it("should emit one label per order", () => {
+    const zpl = buildZplDocument([
+      { id: 1, orderNumber: "A" },
+      { id: 2, orderNumber: "B" },
+    ]);
+    expect(zpl.match(/\^XA/g)).toHaveLength(2);
+  });
+});
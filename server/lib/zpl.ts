@@ -0,0 +1,98 @@
+import type { ZplLabelOrder } from "@shared/api";
+
+/**
+ * ZPL airwaybills for Zebra thermal printers
+ * Labels are regenerated from the order data instead of rasterizing the
+ * upstream PDF, so the printer renders text and barcode natively (sharp and
+ * fast). Layout targets 4x6" (100x150 mm) stock at 203 dpi.
+ */
+
+// 4" x 6" at 203 dpi
+const LABEL_WIDTH_DOTS = 812;
+const LABEL_HEIGHT_DOTS = 1218;
+const MARGIN_DOTS = 40;
+const TEXT_WIDTH_DOTS = LABEL_WIDTH_DOTS - 2 * MARGIN_DOTS;
+
+/**
+ * Escape field data for use after ^FH
+ * "^" and "~" would start a new command, "_" is the ^FH escape character
+ * @param value - Raw text
+ * @returns Text safe inside ^FD…^FS
+ */
+export function escapeZplField(value: string): string {
+  return value
+    .replace(/_/g, "_5F")
+    .replace(/\^/g, "_5E")
+    .replace(/~/g, "_7E")
+    .replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Text block wrapped to the label width
+ */
+function textField(
+  y: number,
+  text: string,
+  fontSize: number,
+  maxLines = 1,
+): string {
+  return (
+    `^FO${MARGIN_DOTS},${y}^A0N,${fontSize},${fontSize}` +
+    `^FB${TEXT_WIDTH_DOTS},${maxLines},0,L^FH^FD${escapeZplField(text)}^FS`
+  );
+}
+
+/**
+ * Build one label
+ * Missing details are left off rather than printed as blanks.
+ * @param order - Order number, Shipox ID and details
+ * @returns ZPL for a single label (^XA…^XZ)
+ */
+export function buildZplLabel(order: ZplLabelOrder): string {
+  const lines = [
+    "^XA",
+    "^CI28", // UTF-8 field data (Cyrillic and Uzbek Latin names)
+    `^PW${LABEL_WIDTH_DOTS}`,
+    `^LL${LABEL_HEIGHT_DOTS}`,
+    textField(MARGIN_DOTS, "FARGO", 48),
+    `^FO${LABEL_WIDTH_DOTS - MARGIN_DOTS - 300},${MARGIN_DOTS}^A0N,28,28^FB300,1,0,R^FDID ${order.id}^FS`,
+    `^FO${MARGIN_DOTS},110^GB${TEXT_WIDTH_DOTS},3,3^FS`,
+    `^FO${MARGIN_DOTS},140^BY3^BCN,180,Y,N,N^FH^FD${escapeZplField(order.orderNumber)}^FS`,
+    `^FO${MARGIN_DOTS},380^GB${TEXT_WIDTH_DOTS},3,3^FS`,
+  ];
+
+  let y = 410;
+  const add = (text: string | undefined, fontSize: number, maxLines = 1) => {
+    if (!text) return;
+    lines.push(textField(y, text, fontSize, maxLines));
+    y += fontSize * maxLines + 20;
+  };
+
+  add(order.recipientName && `To: ${order.recipientName}`, 40, 2);
+  add(order.recipientPhone && `Tel: ${order.recipientPhone}`, 36);
+  add(order.address, 32, 3);
+  add(order.city, 44);
+
+  lines.push(`^FO${MARGIN_DOTS},${y}^GB${TEXT_WIDTH_DOTS},3,3^FS`);
+  y += 30;
+
+  add(
+    order.codAmount !== undefined
+      ? `COD: ${order.codAmount.toLocaleString("en-US")}`
+      : undefined,
+    48,
+  );
+  add(order.courier && `Courier: ${order.courier}`, 32);
+
+  lines.push("^XZ");
+  return lines.join("\n");
+}
+
+/**
+ * Build a print job with one label per order, in the given order
+ * @param orders - Orders to print
+ * @returns ZPL document
+ */
+export function buildZplDocument(orders: ZplLabelOrder[]): string {
+  return orders.map(buildZplLabel).join("\n") + "\n";
+}
@@ -0,0 +1,119 @@
+import "dotenv/config";
+import express from "express";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { AgentPrintResponse } from "@shared/api";
+import { MAX_COPIES, listPrinters, printFile } from "./lib/printAgent";
+
+/**
+ * Local print agent for silent airwaybill printing
+ * Runs on the packing station next to the browser (`npm run
+ * build:print-agent` once, then `npm run print-agent`; `npm run
+ * dev:print-agent` runs the source directly)
+ * and prints PDFs posted by the web app straight to a CUPS printer, so
+ * nobody has to open a tab and press Ctrl+P for every batch.
+ *
+ *   GET  /health            -> { ok: true }
+ *   GET  /printers          -> AgentPrinter[]
+ *   POST /print?printer=&copies=  (body: application/pdf) -> AgentPrintResponse
+ *
+ * Only listens on 127.0.0.1. PRINT_AGENT_ORIGINS (comma-separated) lists the
+ * web app origins allowed to call it; other sites cannot print.
+ */
+
+const port = Number(process.env.PRINT_AGENT_PORT) || 17777;
+const allowedOrigins = (
+  process.env.PRINT_AGENT_ORIGINS || "http://localhost:8080"
+)
+  .split(",")
+  .map((o) => o.trim())
+  .filter(Boolean);
+
+const app = express();
+
+// CORS for the configured origins; Chrome also asks public pages for
+// permission to reach localhost (Private Network Access)
+app.use((req, res, next) => {
+  const origin = String(req.headers.origin || "");
+  if (origin && !allowedOrigins.includes(origin)) {
+    res.status(403).json({ error: `Origin ${origin} is not allowed` });
+    return;
+  }
+
+  if (origin) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Private-Network", "true");
+  }
+
+  if (req.method === "OPTIONS") {
+    res.status(204).end();
+    return;
+  }
+  next();
+});
+
+app.get("/health", (_req, res) => {
+  res.json({ ok: true });
+});
+
+app.get("/printers", async (_req, res) => {
+  try {
+    res.json(await listPrinters());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log("💥 Listing printers failed:", message);
+    res.status(503).json({ error: message });
+  }
+});
+
+app.post(
+  "/print",
+  express.raw({ type: "application/pdf", limit: "200mb" }),
+  async (req, res) => {
+    const body = req.body as Buffer;
+    if (!Buffer.isBuffer(body) || body.subarray(0, 4).toString() !== "%PDF") {
+      res.status(400).json({ error: "Body must be a PDF" });
+      return;
+    }
+
+    const printer = req.query.printer ? String(req.query.printer) : undefined;
+    const copies = Math.min(
+      Math.max(Math.floor(Number(req.query.copies)) || 1, 1),
+      MAX_COPIES,
+    );
+
+    let dir: string | undefined;
+
+    try {
+      dir = await mkdtemp(path.join(os.tmpdir(), "airwaybill-"));
+      const file = path.join(dir, "labels.pdf");
+      await writeFile(file, body);
+      const jobId = await printFile(file, printer, copies);
+      console.log(
+        `🖨️  Printed ${body.length} bytes on ${printer || "default printer"} x${copies} (${jobId || "no job id"})`,
+      );
+
+      const response: AgentPrintResponse = {
+        jobId,
+        printer: printer || "",
+        copies,
+      };
+      res.json(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log("💥 Print failed:", message);
+      res.status(500).json({ error: message });
+    } finally {
+      if (dir) await rm(dir, { recursive: true, force: true });
+    }
+  },
+);
+
+app.listen(port, "127.0.0.1", () => {
+  console.log(`🖨️  Print agent listening on http://127.0.0.1:${port}`);
+  console.log(`🔐 Allowed origins: ${allowedOrigins.join(", ")}`);
+});
@@ -0,0 +1,48 @@
+import { Request, RequestHandler, Response } from "express";
+import { timingSafeEqual } from "crypto";
+import { pdfCache } from "../lib/pdfCache";
+
+/**
+ * Check the X-Admin-Token header against ADMIN_TOKEN
+ * Admin routes are disabled entirely when ADMIN_TOKEN is not set.
+ * @returns true when the request may proceed (otherwise a response was sent)
+ */
+function requireAdmin(req: Request, res: Response): boolean {
+  const expected = process.env.ADMIN_TOKEN || "";
+  if (!expected) {
+    res.status(503).json({ error: "Admin routes are disabled" });
+    return false;
+  }
+
+  const given = Buffer.from(String(req.headers["x-admin-token"] || ""));
+  const wanted = Buffer.from(expected);
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    res.status(401).json({ error: "Invalid admin token" });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Report PDF cache size and limits
+ */
+export const handlePdfCacheStats: RequestHandler = (req, res) => {
+  if (!requireAdmin(req, res)) return;
+  res.json(pdfCache.stats());
+};
+
+/**
+ * Purge the PDF cache
+ * DELETE /api/admin/pdf-cache drops everything; /api/admin/pdf-cache/:key
+ * drops one entry (the key is the hash returned by pdfCacheKey).
+ */
+export const handlePdfCachePurge: RequestHandler = (req, res) => {
+  if (!requireAdmin(req, res)) return;
+
+  const removed = pdfCache.purge(req.params.key);
+  console.log(
+    `🧹 PDF cache purge${req.params.key ? ` (${req.params.key})` : ""}: ${removed} entries removed`,
+  );
+  res.json({ removed, ...pdfCache.stats() });
+};
@@ -0,0 +1,162 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import type { ResolveStreamEvent } from "@shared/api";
+import { resolveOrderNumbers } from "../lib/shipoxSearch";
+
+/**
+ * Upper bounds applied to client-supplied search settings so one request
+ * cannot flood the Shipox API
+ */
+const MAX_BATCH_SIZE = 500;
+const MAX_CONCURRENCY = Number(process.env.SHIPOX_MAX_CONCURRENCY) || 6;
+const MAX_PAGE_TIMEOUT_MS = 120000;
+const MAX_TOTAL_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Body accepted by POST /api/orders/resolve
+ */
+const resolveOrdersSchema = z.object({
+  orderNumbers: z.array(z.string().trim().min(1).max(64)).min(1).max(20000),
+  batchSize: z.number().int().positive().optional(),
+  concurrency: z.number().int().positive().optional(),
+  sortBy: z
+    .enum(["response", "input", "courier", "city", "created_at"])
+    .optional(),
+  searchType: z.enum(["order_number", "reference", "phone", "auto"]).optional(),
+  pageTimeoutMs: z.number().int().positive().optional(),
+  totalTimeoutMs: z.number().int().positive().optional(),
+});
+
+/**
+ * HTTP status used for a search error code
+ */
+function searchErrorStatus(code: string): number {
+  if (code === "UNAUTHORIZED_401") return 401;
+  if (code.startsWith("SEARCH_FAILED_")) return 502;
+  return 500;
+}
+
+/**
+ * Resolve order numbers to Shipox IDs server-side
+ * Runs the batched, paginated Shipox search and returns a SearchResult.
+ * With "Accept: application/x-ndjson" the response is a stream of progress
+ * events followed by the result. Closing the connection cancels the search.
+ */
+export const handleResolveOrders: RequestHandler = async (req, res) => {
+  const token = String(req.headers["x-auth-token"] || "");
+
+  if (!token) {
+    res.status(400).json({
+      error: "Missing authentication token",
+      suggestion: "Provide X-Auth-Token header with id_token",
+    });
+    return;
+  }
+
+  const parsed = resolveOrdersSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Invalid request body",
+      details: parsed.error.flatten(),
+    });
+    return;
+  }
+
+  const {
+    orderNumbers,
+    batchSize,
+    concurrency,
+    sortBy,
+    searchType,
+    pageTimeoutMs,
+    totalTimeoutMs,
+  } = parsed.data;
+  const wantsStream = String(req.headers.accept || "").includes(
+    "application/x-ndjson",
+  );
+  const t0 = Date.now();
+
+  // Client went away (cancel button, closed tab): stop hitting Shipox
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const send = (event: ResolveStreamEvent) => {
+    res.write(JSON.stringify(event) + "\n");
+  };
+
+  if (wantsStream) {
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-cache");
+    res.flushHeaders();
+  }
+
+  console.log(
+    `🔎 [orders] resolving ${orderNumbers.length} order numbers (batchSize=${batchSize ?? "default"}, concurrency=${concurrency ?? "default"}, sortBy=${sortBy ?? "response"}, searchType=${searchType ?? "order_number"}${wantsStream ? ", streaming" : ""})`,
+  );
+
+  try {
+    const result = await resolveOrderNumbers(orderNumbers, token, {
+      batchSize: batchSize && Math.min(batchSize, MAX_BATCH_SIZE),
+      concurrency: concurrency && Math.min(concurrency, MAX_CONCURRENCY),
+      sortBy,
+      searchType,
+      pageTimeoutMs:
+        pageTimeoutMs && Math.min(pageTimeoutMs, MAX_PAGE_TIMEOUT_MS),
+      // Without a client deadline the server cap still applies
+      totalTimeoutMs: Math.min(
+        totalTimeoutMs ?? MAX_TOTAL_TIMEOUT_MS,
+        MAX_TOTAL_TIMEOUT_MS,
+      ),
+      signal: controller.signal,
+      onProgress: wantsStream
+        ? (progress) => send({ type: "progress", progress })
+        : undefined,
+    });
+
+    const slowest = Math.max(
+      0,
+      ...(result.stats?.batches.map((b) => b.durationMs) ?? []),
+    );
+    console.log(
+      `✅ [orders] ${result.ids.length} IDs, ${result.notFound.length} not found, ${result.unrequested.length} unrequested in ${Date.now() - t0} ms (slowest batch ${slowest} ms)`,
+    );
+
+    if (wantsStream) {
+      send({ type: "result", result });
+      res.end();
+    } else {
+      res.json(result);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (message === "SEARCH_ABORTED") {
+      console.log(`🛑 [orders] search cancelled after ${Date.now() - t0} ms`);
+      if (!res.writableEnded) res.end();
+      return;
+    }
+
+    console.log(
+      `❌ [orders] search failed after ${Date.now() - t0} ms: ${message}`,
+    );
+
+    // Shipox error codes are passed through so the client can map them
+    if (wantsStream) {
+      send({ type: "error", error: message });
+      res.end();
+      return;
+    }
+
+    const status = searchErrorStatus(message);
+    res
+      .status(status)
+      .json(
+        status === 500
+          ? { error: "Order search failed", details: message }
+          : { error: message },
+      );
+  }
+};
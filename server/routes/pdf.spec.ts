@@ -0,0 +1,120 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  it,
+  expect,
+  vi,
+} from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { PDFDocument } from "pdf-lib";
+import { createServer } from "../index";
+import { pdfCache } from "../lib/pdfCache";
+
+const realFetch = globalThis.fetch;
+
+/**
+ * Upstream PDF with one page per requested ID, sent in two pieces so the
+ * proxy has to read it as a stream
+ */
+async function airwaybills(url: string): Promise<Response> {
+  const ids = new URL(url).searchParams.get("ids").split(",");
+  const doc = await PDFDocument.create();
+  for (const id of ids) doc.addPage([100, 100]).drawText(id);
+  const bytes = await doc.save();
+  const half = Math.floor(bytes.length / 2);
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes.subarray(0, half));
+      controller.enqueue(bytes.subarray(half));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "application/pdf" } });
+}
+
+describe("GET /api/pdf", () => {
+  let server: Server;
+  let base: string;
+  const upstream = vi.fn(airwaybills);
+
+  /**
+   * Request labels through the proxy; only admin.fargo.uz calls are mocked
+   */
+  async function getPdf(query: string, token = "jwt-a") {
+    const res = await realFetch(`${base}/api/pdf?${query}`, {
+      headers: { "X-Auth-Token": token },
+    });
+    const buf = Buffer.from(await res.arrayBuffer());
+    const pages = (await PDFDocument.load(buf)).getPageCount();
+    return { res, buf, pages };
+  }
+
+  beforeAll(async () => {
+    server = createServer().listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubGlobal("fetch", (url: string, init?: RequestInit) =>
+      url.startsWith("https://admin.fargo.uz/")
+        ? upstream(url)
+        : realFetch(url, init),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    upstream.mockClear();
+    pdfCache.purge();
+  });
+
+  it("should stream single-chunk jobs and cache the streamed copy", async () => {
+    const first = await getPdf("ids=1,2");
+
+    expect(first.res.headers.get("X-Pdf-Streamed")).toBe("1");
+    expect(first.res.headers.get("X-Cache")).toBe("MISS");
+    expect(first.pages).toBe(2);
+
+    // The copy is cached right after the response ended
+    await vi.waitFor(() => expect(pdfCache.stats().entries).toBe(1));
+
+    const second = await getPdf("ids=1,2");
+    expect(second.res.headers.get("X-Cache")).toBe("HIT");
+    expect(second.res.headers.get("X-Page-Count")).toBe("2");
+    expect(second.buf.equals(first.buf)).toBe(true);
+    expect(upstream).toHaveBeenCalledTimes(1);
+
+    const otherSession = await getPdf("ids=1,2", "jwt-b");
+    expect(otherSession.res.headers.get("X-Cache")).toBe("MISS");
+    expect(upstream).toHaveBeenCalledTimes(2);
+  });
+
+  it("should buffer and merge multi-chunk jobs", async () => {
+    const { res, pages } = await getPdf("ids=1,2,3&chunkSize=1");
+
+    expect(res.headers.get("X-Pdf-Streamed")).toBeNull();
+    expect(res.headers.get("X-Dbg-Chunks")).toBe("3/3");
+    expect(res.headers.get("X-Page-Count")).toBe("3");
+    expect(pages).toBe(3);
+    expect(upstream).toHaveBeenCalledTimes(3);
+    expect(pdfCache.stats().entries).toBe(1);
+  });
+
+  it("should buffer stamped single-chunk jobs", async () => {
+    const { res, pages } = await getPdf("ids=1&stamp=1");
+
+    expect(res.headers.get("X-Pdf-Streamed")).toBeNull();
+    expect(res.headers.get("X-Page-Count")).toBe("1");
+    expect(pages).toBe(1);
+  });
+});
@@ -1,4 +1,19 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { Zip, ZipPassThrough } from "fflate";
+import { AirwaybillFormat, LabelLayout, PdfChunkFailure } from "@shared/api";
+import { runWorkerPool } from "@shared/workerPool";
+import { checkPageCounts } from "@shared/pdfPages";
+import {
+  countPdfPages,
+  imposeLabels,
+  mergePdfs,
+  prependCoverPage,
+  splitPdf,
+  stampFooters,
+} from "../lib/pdfTools";
+import { pdfCache, pdfCacheKey, pdfCacheOwner } from "../lib/pdfCache";
+import { IS_SERVERLESS } from "../lib/runtime";
 
 /**
  * Mask sensitive values for logging (show first N chars + length)
@@ -29,38 +44,591 @@ function normalizeIdsParam(raw: string): string {
 }
 
 /**
- * Hardened PDF proxy endpoint with debug headers and proper cookie handling
- * Fixes blank PDFs by ensuring correct encoding and upstream headers
+ * Default number of IDs per upstream request; override with PDF_CHUNK_SIZE
+ * or the chunkSize query parameter
  */
-export const handlePdfProxy: RequestHandler = async (req, res) => {
-  const rawIds = String(req.query.ids || "");
-  const ids = normalizeIdsParam(rawIds);
+const DEFAULT_CHUNK_SIZE = Number(process.env.PDF_CHUNK_SIZE) || 500;
+
+/**
+ * Maximum number of upstream requests in flight for one proxy call
+ */
+const CHUNK_CONCURRENCY = Number(process.env.PDF_CHUNK_CONCURRENCY) || 3;
+
+/**
+ * Upstream file endpoint for each airwaybill format
+ */
+const AIRWAYBILL_PATHS: Record<AirwaybillFormat, string> = {
+  mini: "airwaybill_mini",
+  full: "airwaybill",
+};
+
+/**
+ * Body accepted by POST /api/pdf
+ */
+const pdfRequestSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+  format: z.enum(["mini", "full"]).default("mini"),
+  filename: z
+    .string()
+    .max(120)
+    .regex(/^[\w\-. ]+$/, "Only letters, digits, spaces, '-', '_' and '.'")
+    .optional(),
+  chunkSize: z.number().int().positive().optional(),
+  layout: z.enum(["single", "a4-2up", "a4-4up"]).default("single"),
+  stamp: z.boolean().default(false),
+  coverPage: z.boolean().default(false),
+  batchId: z.string().max(40).optional(),
+  operator: z.string().max(80).optional(),
+  orderNumbers: z.array(z.string().max(100)).optional(),
+});
+
+/**
+ * Normalized PDF request shared by the GET and POST handlers
+ */
+type PdfJob = {
+  ids: string[];
+  format: AirwaybillFormat;
+  chunkSize: number;
+  filename?: string;
+  layout: LabelLayout;
+  stamp: boolean;
+  coverPage: boolean;
+  batchId?: string;
+  operator?: string;
+  orderNumbers?: string[]; // Parallel to ids
+};
+
+/**
+ * Upstream result for one chunk of IDs
+ */
+type ChunkResult = {
+  index: number;
+  ids: string[];
+  url: string;
+  status: number; // 0 when fetch itself threw
+  contentType: string | null;
+  buf: Buffer;
+  ms: number;
+  error?: string;
+};
+
+/**
+ * Resolve the chunk size from the request, clamped to [1, DEFAULT_CHUNK_SIZE]
+ */
+function resolveChunkSize(raw: unknown): number {
+  const requested = Number(raw);
+  if (!Number.isFinite(requested) || requested < 1) return DEFAULT_CHUNK_SIZE;
+  return Math.min(Math.floor(requested), DEFAULT_CHUNK_SIZE);
+}
+
+/**
+ * Read the layout query parameter, falling back to single labels
+ */
+function resolveLayout(raw: unknown): LabelLayout {
+  return raw === "a4-2up" || raw === "a4-4up" ? raw : "single";
+}
+
+/**
+ * Upstream URL for a list of IDs
+ */
+function airwaybillUrl(ids: string[], format: AirwaybillFormat): string {
+  return `https://admin.fargo.uz/file/order/${AIRWAYBILL_PATHS[format]}?ids=${ids.join("%2C")}`;
+}
+
+/**
+ * Make the upstream request with all required headers
+ */
+function requestAirwaybills(
+  url: string,
+  cookie: string,
+): Promise<globalThis.Response> {
+  return fetch(url, {
+    method: "GET",
+    headers: {
+      Cookie: cookie,
+      Accept: "application/pdf",
+      Referer: "https://admin.fargo.uz/dashboard/order/list",
+      "User-Agent": "Mozilla/5.0 (compatible; PDF-Proxy/1.0)",
+    },
+  });
+}
+
+/**
+ * Fetch one chunk of airwaybills from admin.fargo.uz
+ * Never throws: network errors are reported through status 0 and `error`
+ */
+async function fetchAirwaybillChunk(
+  ids: string[],
+  index: number,
+  format: AirwaybillFormat,
+  cookie: string,
+): Promise<ChunkResult> {
+  const url = airwaybillUrl(ids, format);
+  const t0 = Date.now();
+
+  console.log(
+    `📤 [chunk ${index}] GET ${url.slice(0, 120)}${url.length > 120 ? "…" : ""} (${ids.length} IDs)`,
+  );
+
+  try {
+    const response = await requestAirwaybills(url, cookie);
+
+    const buf = Buffer.from(await response.arrayBuffer());
+    const ms = Date.now() - t0;
+    const isPdf = buf.subarray(0, 5).toString().startsWith("%PDF-");
+
+    console.log(
+      `📥 [chunk ${index}] ${response.status} ${response.statusText}, ${buf.length} bytes in ${ms} ms${isPdf ? "" : " (not PDF)"}`,
+    );
+
+    // Quick sanity check for PDF format
+    if (!isPdf) {
+      console.warn(
+        `[proxy] chunk ${index} not starting with %PDF, first bytes:`,
+        buf.subarray(0, 16).toString("hex"),
+      );
+    }
+
+    let error: string | undefined;
+    if (!response.ok) {
+      error = `Upstream returned ${response.status}`;
+      console.log(`📝 [chunk ${index}] Error response body:`);
+      console.log(buf.subarray(0, 500).toString());
+    } else if (!isPdf) {
+      error = "Upstream response is not a PDF";
+    }
+
+    return {
+      index,
+      ids,
+      url,
+      status: response.status,
+      contentType: response.headers.get("content-type"),
+      buf,
+      ms,
+      error,
+    };
+  } catch (error) {
+    const ms = Date.now() - t0;
+    console.log(
+      `💥 [chunk ${index}] fetch failed after ${ms} ms:`,
+      error instanceof Error ? error.message : String(error),
+    );
+
+    if (error instanceof Error && error.stack) {
+      console.log(error.stack);
+    }
+
+    return {
+      index,
+      ids,
+      url,
+      status: 0,
+      contentType: null,
+      buf: Buffer.alloc(0),
+      ms,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
 
+/**
+ * Read the Fargo session from the request and build the upstream cookie
+ * (w-bh is included when available)
+ */
+function readUpstreamAuth(req: Request) {
   const jwt = String(req.headers["x-auth-token"] || "");
   const bh = String(
     req.headers["x-bh"] || req.headers["x-w-bh"] || process.env.W_BH || "",
   );
+  const cookie = ["w-jwt=" + jwt, bh ? "w-bh=" + bh : null]
+    .filter(Boolean)
+    .join("; ");
 
-  // Validate required parameters
-  if (!ids) {
-    res.status(400).json({ error: "Missing ids parameter" });
+  return { jwt, bh, cookie };
+}
+
+function sendMissingToken(res: Response): void {
+  res.status(400).json({
+    error: "Missing authentication token",
+    suggestion: "Provide X-Auth-Token header with id_token",
+  });
+}
+
+/**
+ * Time zone for print timestamps on stamped labels and cover pages
+ */
+const STAMP_TIME_ZONE = process.env.STAMP_TIME_ZONE || "Asia/Tashkent";
+
+/**
+ * Apply the job's stamping, layout and cover page to the merged labels
+ * Footers are stamped before imposition so each label keeps its own; the
+ * cover page is added last so it is not imposed as a label.
+ * @param buf - Merged upstream labels
+ * @param job - Normalized request
+ * @param printedIds - IDs whose labels are in buf, in page order
+ * @returns PDF bytes to send
+ */
+async function renderLabels(
+  buf: Buffer,
+  job: PdfJob,
+  printedIds: string[],
+): Promise<Buffer> {
+  if (!job.stamp && !job.coverPage && job.layout === "single") return buf;
+
+  const printedAt = new Date().toLocaleString("sv-SE", {
+    timeZone: STAMP_TIME_ZONE,
+  });
+  const batchId = job.batchId || `B-${Date.now().toString(36).toUpperCase()}`;
+  const orderNumberById = new Map(
+    job.orderNumbers?.length === job.ids.length
+      ? job.ids.map((id, i) => [id, job.orderNumbers[i]])
+      : [],
+  );
+  const labelName = (id: string) => orderNumberById.get(id) || `ID ${id}`;
+
+  let out = buf;
+
+  if (job.stamp) {
+    out = await stampFooters(out, (page, pageCount) => {
+      // Pages map back to IDs only when every ID rendered the same number
+      const pagesPerId =
+        pageCount % printedIds.length === 0 ? pageCount / printedIds.length : 0;
+      const id = pagesPerId ? printedIds[Math.floor(page / pagesPerId)] : "";
+
+      return [
+        `Batch ${batchId}`,
+        id && `#${labelName(id)}`,
+        printedAt,
+        job.operator && `op: ${job.operator}`,
+        `${page + 1}/${pageCount}`,
+      ]
+        .filter(Boolean)
+        .join(" | ");
+    });
+  }
+
+  out = await imposeLabels(out, job.layout);
+
+  if (job.coverPage) {
+    const missing = job.ids.length - printedIds.length;
+    out = await prependCoverPage(out, `Airwaybill batch ${batchId}`, [
+      `Printed: ${printedAt}`,
+      `Operator: ${job.operator || "-"}`,
+      `Format: ${job.format}, layout: ${job.layout}`,
+      `Orders: ${printedIds.length}${missing > 0 ? ` (${missing} missing - failed chunks)` : ""}`,
+      "",
+      ...printedIds.map(labelName),
+    ]);
+  }
+
+  return out;
+}
+
+/**
+ * Set an inline Content-Disposition when a file name was requested
+ */
+function setInlineFilename(res: Response, filename: string | undefined): void {
+  if (!filename) return;
+  const name = filename.toLowerCase().endsWith(".pdf")
+    ? filename
+    : `${filename}.pdf`;
+  res.setHeader("Content-Disposition", `inline; filename="${name}"`);
+}
+
+/**
+ * Send label PDF bytes rendered for the job, with an inline file name when
+ * one was requested; multi-up layouts report their sheet count in
+ * X-Sheet-Count (X-Page-Count stays the number of label pages)
+ */
+async function sendPdf(
+  res: Response,
+  buf: Buffer,
+  job: PdfJob,
+  printedIds: string[],
+): Promise<void> {
+  const out = await renderLabels(buf, job, printedIds);
+  if (job.layout !== "single") {
+    const sheets = await countPdfPages(out);
+    if (sheets !== undefined) res.setHeader("X-Sheet-Count", String(sheets));
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  setInlineFilename(res, job.filename);
+  res.end(out);
+}
+
+/**
+ * Stream single-request PDFs instead of buffering them; override with
+ * PDF_STREAMING=1/0. Off by default on serverless, where serverless-http
+ * buffers the whole response anyway.
+ */
+const STREAMING_ENABLED =
+  process.env.PDF_STREAMING !== undefined
+    ? process.env.PDF_STREAMING === "1"
+    : !IS_SERVERLESS;
+
+/**
+ * Bytes read before deciding whether upstream is sending a PDF
+ */
+const SNIFF_BYTES = 5;
+
+/**
+ * Error pages (login redirects, 5xx bodies) are read up to this size
+ */
+const ERROR_BODY_MAX_BYTES = 64 * 1024;
+
+/**
+ * Streamed PDFs up to this size are copied into the PDF cache; override with
+ * PDF_STREAM_CACHE_MAX_MB (0 disables). Larger ones are passed through
+ * without a copy so their memory use stays flat.
+ */
+const STREAM_CACHE_MAX_BYTES = Math.min(
+  (process.env.PDF_STREAM_CACHE_MAX_MB !== undefined
+    ? Number(process.env.PDF_STREAM_CACHE_MAX_MB)
+    : 20) *
+    1024 *
+    1024,
+  pdfCache.stats().maxBytes,
+);
+
+/**
+ * Whether the job needs the whole PDF in memory (stamping, imposition)
+ */
+function needsPostProcessing(job: PdfJob): boolean {
+  return job.layout !== "single" || job.stamp || job.coverPage;
+}
+
+/**
+ * Read from a stream until at least `min` bytes arrived or it ended
+ */
+async function readAtLeast(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  min: number,
+): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  let bytes = 0;
+
+  while (bytes < min) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(Buffer.from(value));
+    bytes += value.length;
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Wait until the response can take more data
+ * @returns false when the client went away instead
+ */
+function waitForDrain(res: Response): Promise<boolean> {
+  if (res.destroyed) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    const settle = (drained: boolean) => () => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+      res.off("error", onClose);
+      resolve(drained);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+    res.on("error", onClose);
+  });
+}
+
+/**
+ * Stream a single-chunk job from upstream to the client
+ * The first bytes are sniffed for the %PDF- signature before any header is
+ * sent, so error and login pages are still reported like in the buffered
+ * path. Nothing is known about the body when the headers go out, so streamed
+ * responses carry X-Pdf-Streamed instead of X-Page-Count, X-Pdf-Warning and
+ * X-Dbg-Bytes/X-Dbg-Time: the client counts the pages it received and the
+ * totals are only logged here. Bodies up to STREAM_CACHE_MAX_BYTES are
+ * copied while streaming and cached once complete, under the same rules as
+ * the buffered path; larger ones are not kept at all.
+ */
+async function streamAirwaybillPdf(
+  res: Response,
+  job: PdfJob,
+  cookie: string,
+  t0: number,
+  cache: { key: string; owner: string },
+): Promise<void> {
+  const url = airwaybillUrl(job.ids, job.format);
+  const response = await requestAirwaybills(url, cookie);
+  const reader = response.body?.getReader();
+
+  try {
+    const head = reader
+      ? await readAtLeast(reader, SNIFF_BYTES)
+      : Buffer.alloc(0);
+    const isPdf = head.subarray(0, 5).toString() === "%PDF-";
+
+    console.log(
+      `📥 [stream] ${response.status} ${response.statusText}, first byte after ${Date.now() - t0} ms${isPdf ? "" : " (not PDF)"}`,
+    );
+
+    res.setHeader("X-Dbg-Ids", job.ids.join("%2C"));
+    res.setHeader("X-Dbg-Url", url);
+    res.setHeader("X-Dbg-Upstream-Status", String(response.status));
+
+    if (!response.ok || !isPdf) {
+      const rest = reader
+        ? await readAtLeast(reader, ERROR_BODY_MAX_BYTES - head.length)
+        : Buffer.alloc(0);
+      const body = Buffer.concat([head, rest]).subarray(
+        0,
+        ERROR_BODY_MAX_BYTES,
+      );
+
+      console.log(
+        `❌ [stream] ${response.ok ? "Upstream response is not a PDF" : `Upstream returned ${response.status}`}:`,
+        body.subarray(0, 500).toString(),
+      );
+
+      if (!response.ok) {
+        res.status(response.status).send(body.toString());
+        return;
+      }
+
+      // 2xx with a non-PDF body (usually a login page): send it unchanged so
+      // the client's own PDF checks report it
+      res.setHeader("Content-Type", "application/pdf");
+      res.end(body);
+      return;
+    }
+
+    res.setHeader(
+      "Access-Control-Expose-Headers",
+      "X-Dbg-Ids,X-Dbg-Url,X-Dbg-Upstream-Status,X-Dbg-Chunks,X-Pdf-Streamed,X-Expected-Count,X-Cache",
+    );
+    res.setHeader("X-Dbg-Chunks", "1/1");
+    res.setHeader("X-Pdf-Streamed", "1");
+    res.setHeader("X-Expected-Count", String(job.ids.length));
+    res.setHeader("X-Cache", "MISS");
+    res.setHeader("Content-Type", "application/pdf");
+    setInlineFilename(res, job.filename);
+
+    let bytes = head.length;
+    let copy: Buffer[] | undefined =
+      head.length <= STREAM_CACHE_MAX_BYTES ? [head] : undefined;
+    res.write(head);
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytes += value.length;
+      if (copy && bytes <= STREAM_CACHE_MAX_BYTES) {
+        copy.push(Buffer.from(value));
+      } else {
+        copy = undefined;
+      }
+
+      // Respect backpressure so a slow client does not pile data up here
+      if (!res.write(value) && !(await waitForDrain(res))) {
+        console.log(`🔌 [stream] client went away after ${bytes} bytes`);
+        return;
+      }
+    }
+
+    res.end();
+    console.log(`✅ [stream] ${bytes} bytes streamed in ${Date.now() - t0} ms`);
+
+    if (copy) {
+      await cacheStreamedPdf(Buffer.concat(copy), job, cache);
+    }
+  } finally {
+    // Stops the upstream download when the client left or reading failed
+    await reader?.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Cache a completely streamed PDF once it was sent
+ * Like in the buffered path, only readable PDFs whose page count passes
+ * checkPageCounts are reused, so a short PDF is fetched again instead of
+ * served as complete.
+ */
+async function cacheStreamedPdf(
+  buf: Buffer,
+  job: PdfJob,
+  cache: { key: string; owner: string },
+): Promise<void> {
+  const pageCount = await countPdfPages(buf);
+  const pageWarning = checkPageCounts([
+    { index: 0, ids: job.ids, pages: pageCount ?? null },
+  ]);
+  if (pageCount === undefined || pageWarning) {
+    console.log(
+      `⚠️  [stream] Not cached: ${pageCount ?? "?"} pages / ${job.ids.length} IDs`,
+    );
     return;
   }
 
+  pdfCache.set(cache.key, {
+    ids: job.ids,
+    owner: cache.owner,
+    buf,
+    pageCount,
+  });
+}
+
+/**
+ * Fetch the airwaybills for a normalized job and send them as one PDF
+ * Large ID lists are split into chunks, fetched with bounded concurrency and
+ * merged into a single PDF; chunks that fail are listed in the
+ * X-Pdf-Failed-Chunks header instead of failing the whole download.
+ * Only single-chunk jobs without stamping or imposition are streamed (when
+ * STREAMING_ENABLED). Jobs with several chunks, stamping, a cover page or a
+ * multi-up layout are still fully buffered: merging and rendering need every
+ * page in memory, so their memory use grows with the batch size.
+ */
+async function proxyAirwaybillPdf(
+  req: Request,
+  res: Response,
+  job: PdfJob,
+): Promise<void> {
+  const { jwt, bh, cookie } = readUpstreamAuth(req);
+
   if (!jwt) {
-    res.status(400).json({
-      error: "Missing authentication token",
-      suggestion: "Provide X-Auth-Token header with id_token",
-    });
+    sendMissingToken(res);
     return;
   }
 
-  // Build cookie string (include w-bh if available)
-  const cookie = ["w-jwt=" + jwt, bh ? "w-bh=" + bh : null]
-    .filter(Boolean)
-    .join("; ");
+  const idList = job.ids;
+  const ids = idList.join("%2C");
+  const chunkSize = job.chunkSize;
+  const chunks: string[][] = [];
+  for (let i = 0; i < idList.length; i += chunkSize) {
+    chunks.push(idList.slice(i, i + chunkSize));
+  }
 
-  const url = `https://admin.fargo.uz/file/order/airwaybill_mini?ids=${ids}`;
+  const cacheKey = pdfCacheKey(idList, job.format);
+  const cacheOwner = pdfCacheOwner(cookie);
+  const cached = pdfCache.get(cacheKey, idList, cacheOwner);
+  if (cached) {
+    console.log(
+      `♻️  PDF cache hit: ${idList.length} IDs (${job.format}), ${cached.buf.length} bytes`,
+    );
+    res.setHeader(
+      "Access-Control-Expose-Headers",
+      "X-Cache,X-Page-Count,X-Expected-Count,X-Sheet-Count",
+    );
+    res.setHeader("X-Cache", "HIT");
+    res.setHeader("X-Expected-Count", String(idList.length));
+    if (cached.pageCount !== undefined) {
+      res.setHeader("X-Page-Count", String(cached.pageCount));
+    }
+    await sendPdf(res, cached.buf, job, idList);
+    return;
+  }
 
   const t0 = Date.now();
 
@@ -68,107 +636,212 @@ export const handlePdfProxy: RequestHandler = async (req, res) => {
   console.log("=".repeat(80));
   console.log("📤 UPSTREAM REQUEST TO ADMIN.FARGO.UZ");
   console.log("=".repeat(80));
-  console.log("🌐 URL:", url);
-  console.log("🔧 Method: GET");
+  console.log("🔧 Method: GET", `(client ${req.method})`);
   console.log("📋 Headers:");
   console.log("  Cookie:", `w-jwt=${mask(jwt)}; w-bh=${mask(bh)}`);
   console.log("  Accept: application/pdf");
   console.log("  Referer: https://admin.fargo.uz/dashboard/order/list");
   console.log("  User-Agent: Mozilla/5.0 (compatible; PDF-Proxy/1.0)");
   console.log("📊 Request Details:");
-  console.log("  Raw IDs param:", rawIds);
-  console.log("  Normalized IDs:", ids);
-  console.log("  ID count:", ids.split("%2C").length);
+  console.log("  Format:", job.format);
+  console.log("  Layout:", job.layout);
+  console.log("  Stamp / cover page:", job.stamp, "/", job.coverPage);
+  console.log("  IDs:", mask(ids, 80));
+  console.log("  ID count:", idList.length);
+  console.log(
+    "  Chunks:",
+    chunks.length,
+    `(size ${chunkSize}, concurrency ${CHUNK_CONCURRENCY})`,
+  );
   console.log("  JWT token length:", jwt.length);
   console.log("  W-BH present:", !!bh);
   console.log("⏰ Request started at:", new Date().toISOString());
   console.log("=".repeat(80));
 
   try {
-    // Make upstream request with all required headers
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Cookie: cookie,
-        Accept: "application/pdf",
-        Referer: "https://admin.fargo.uz/dashboard/order/list",
-        "User-Agent": "Mozilla/5.0 (compatible; PDF-Proxy/1.0)",
-      },
-    });
+    // One upstream request and nothing to render: pass the body through
+    // instead of buffering it
+    if (STREAMING_ENABLED && chunks.length === 1 && !needsPostProcessing(job)) {
+      await streamAirwaybillPdf(res, job, cookie, t0, {
+        key: cacheKey,
+        owner: cacheOwner,
+      });
+      return;
+    }
 
-    const buf = Buffer.from(await response.arrayBuffer());
+    console.log(
+      `📦 Buffering ${chunks.length} chunk(s) in memory${needsPostProcessing(job) ? " for stamping/imposition" : chunks.length > 1 ? " to merge them" : ""} (not streamed)`,
+    );
+
+    const { results, timings } = await runWorkerPool(
+      chunks,
+      CHUNK_CONCURRENCY,
+      (chunk, index) => fetchAirwaybillChunk(chunk, index, job.format, cookie),
+    );
+
+    const succeeded = results.filter((r) => !r.error);
+    const failed = results.filter((r) => r.error);
     const ms = Date.now() - t0;
+    const upstreamBytes = results.reduce((sum, r) => sum + r.buf.length, 0);
 
     // Set debug headers (visible in DevTools)
     res.setHeader(
       "Access-Control-Expose-Headers",
-      "X-Dbg-Ids,X-Dbg-Url,X-Dbg-Upstream-Status,X-Dbg-Bytes,X-Dbg-Time",
+      "X-Dbg-Ids,X-Dbg-Url,X-Dbg-Upstream-Status,X-Dbg-Bytes,X-Dbg-Time,X-Dbg-Chunks,X-Dbg-Chunk-Times,X-Pdf-Failed-Chunks,X-Pdf-Warning,X-Page-Count,X-Expected-Count,X-Sheet-Count,X-Cache",
     );
+    res.setHeader("X-Cache", "MISS");
     res.setHeader("X-Dbg-Ids", ids);
-    res.setHeader("X-Dbg-Url", url);
-    res.setHeader("X-Dbg-Upstream-Status", String(response.status));
-    res.setHeader("X-Dbg-Bytes", String(buf.length));
+    res.setHeader("X-Dbg-Url", results[0].url);
+    res.setHeader(
+      "X-Dbg-Upstream-Status",
+      results.map((r) => r.status).join(","),
+    );
+    res.setHeader("X-Dbg-Bytes", String(upstreamBytes));
     res.setHeader("X-Dbg-Time", String(ms));
+    res.setHeader("X-Dbg-Chunks", `${succeeded.length}/${results.length}`);
+    res.setHeader(
+      "X-Dbg-Chunk-Times",
+      timings.map((t) => t.durationMs).join(","),
+    );
 
-    // Quick sanity check for PDF format
-    if (!buf.slice(0, 5).toString().startsWith("%PDF-")) {
-      console.warn(
-        "[proxy] upstream not starting with %PDF, first bytes:",
-        buf.slice(0, 16).toString("hex"),
-      );
-    }
+    // Nothing usable: pass the first upstream error through unchanged
+    if (succeeded.length === 0) {
+      const first = failed[0];
 
-    if (!response.ok) {
       console.log("=".repeat(80));
       console.log("❌ UPSTREAM ERROR FROM ADMIN.FARGO.UZ");
       console.log("=".repeat(80));
-      console.log("🚨 Status:", response.status, response.statusText);
-      console.log("📄 Content-Type:", response.headers.get("content-type"));
+      console.log("🚨 Status:", results.map((r) => r.status).join(", "));
+      console.log("📄 Content-Type:", first.contentType);
       console.log("📊 Error Details:");
-      console.log("  Response size:", buf.length, "bytes");
+      console.log("  Failed chunks:", failed.length);
       console.log("  Request duration:", ms, "ms");
-      console.log("📝 Error Response Body:");
-      console.log(buf.slice(0, 500).toString()); // Show more of error response
-      console.log("🔗 Failed URL:", url);
+      console.log("🔗 First failed URL:", first.url);
       console.log("⏰ Error occurred at:", new Date().toISOString());
       console.log("=".repeat(80));
 
-      res.status(response.status).send(buf.toString());
+      if (first.status === 0) {
+        res.status(500).json({
+          error: "Failed to fetch PDF from upstream",
+          details: first.error,
+        });
+        return;
+      }
+
+      if (first.status >= 400) {
+        res.status(first.status).send(first.buf.toString());
+        return;
+      }
+
+      // 2xx with a non-PDF body (usually a login page): send it unchanged so
+      // the client's own PDF checks report it
+      res.setHeader("Content-Type", "application/pdf");
+      res.end(first.buf);
+      return;
+    }
+
+    // A 401 on any chunk means the session is invalid for all of them
+    const unauthorized = failed.find((r) => r.status === 401);
+    if (unauthorized) {
+      res.status(401).send(unauthorized.buf.toString());
       return;
     }
 
+    if (failed.length > 0) {
+      const failures: PdfChunkFailure[] = failed.map((r) => ({
+        index: r.index,
+        ids: r.ids,
+        status: r.status,
+        error: r.error,
+      }));
+      res.setHeader("X-Pdf-Failed-Chunks", JSON.stringify(failures));
+    }
+
+    // Fargo sometimes leaves orders out without any error; count pages per
+    // chunk so a short PDF is reported instead of printed as complete
+    const pageWarning = checkPageCounts(
+      await Promise.all(
+        succeeded.map(async (r) => ({
+          index: r.index,
+          ids: r.ids,
+          pages: (await countPdfPages(r.buf)) ?? null,
+        })),
+      ),
+    );
+    if (pageWarning) {
+      res.setHeader("X-Pdf-Warning", JSON.stringify(pageWarning));
+    }
+
+    const buf = await mergePdfs(succeeded.map((r) => r.buf));
+    const pageCount = await countPdfPages(buf);
+    res.setHeader("X-Expected-Count", String(idList.length));
+    if (pageCount !== undefined) {
+      res.setHeader("X-Page-Count", String(pageCount));
+    }
+
     // Detailed response logging
     console.log("=".repeat(80));
     console.log("📥 UPSTREAM RESPONSE FROM ADMIN.FARGO.UZ");
     console.log("=".repeat(80));
-    console.log("✅ Status:", response.status, response.statusText);
-    console.log("📄 Content-Type:", response.headers.get("content-type"));
-    console.log("📊 Content-Length:", response.headers.get("content-length"));
+    console.log("✅ Chunks succeeded:", succeeded.length, "of", results.length);
     console.log("📋 Response Details:");
-    console.log("  Buffer size:", buf.length, "bytes");
+    console.log("  Upstream bytes:", upstreamBytes);
+    console.log("  Merged size:", buf.length, "bytes");
+    console.log("  Pages:", pageCount ?? "unknown", "of", idList.length, "IDs");
     console.log("  Request duration:", ms, "ms");
-    console.log("  IDs processed:", ids.split("%2C").length);
     console.log(
-      "  PDF format check:",
-      buf.slice(0, 5).toString().startsWith("%PDF-")
-        ? "✅ Valid PDF"
-        : "❌ Not PDF format",
+      "  IDs processed:",
+      succeeded.reduce((sum, r) => sum + r.ids.length, 0),
     );
 
+    if (failed.length > 0) {
+      console.log(
+        "⚠️  Failed chunks:",
+        failed.map((r) => `#${r.index} (${r.status}: ${r.error})`).join(", "),
+      );
+    }
+
+    if (pageWarning) {
+      console.log(
+        "⚠️  Page count mismatch:",
+        pageWarning.chunks
+          .map(
+            (c) =>
+              `#${c.index} (${c.pages ?? "?"} pages / ${c.ids.length} IDs)`,
+          )
+          .join(", "),
+      );
+    }
+
     if (buf.length < 1000) {
       console.log("⚠️  WARNING: Very small response, might be error page");
-      console.log("📝 Response preview:", buf.slice(0, 200).toString());
+      console.log("📝 Response preview:", buf.subarray(0, 200).toString());
     }
 
     console.log("⏰ Response completed at:", new Date().toISOString());
     console.log("=".repeat(80));
 
-    res.setHeader("Content-Type", "application/pdf");
-    res.end(buf);
+    // Only complete, readable PDFs are reused; a partial one would hide the
+    // failure
+    if (failed.length === 0 && !pageWarning && pageCount !== undefined) {
+      pdfCache.set(cacheKey, {
+        ids: idList,
+        owner: cacheOwner,
+        buf,
+        pageCount,
+      });
+    }
+
+    await sendPdf(
+      res,
+      buf,
+      job,
+      succeeded.flatMap((r) => r.ids),
+    );
   } catch (error) {
     const ms = Date.now() - t0;
     console.log("=".repeat(80));
-    console.log("💥 FETCH ERROR TO ADMIN.FARGO.UZ");
+    console.log("💥 PDF PROXY ERROR");
     console.log("=".repeat(80));
     console.log(
       "🚨 Error type:",
@@ -178,10 +851,10 @@ export const handlePdfProxy: RequestHandler = async (req, res) => {
       "📝 Error message:",
       error instanceof Error ? error.message : String(error),
     );
-    console.log("🔗 Target URL:", url);
     console.log("⏰ Error after:", ms, "ms");
     console.log("📊 Request state:");
-    console.log("  IDs:", ids);
+    console.log("  ID count:", idList.length);
+    console.log("  Chunks:", chunks.length);
     console.log("  Token present:", !!jwt);
     console.log("  W-BH present:", !!bh);
 
@@ -193,18 +866,264 @@ export const handlePdfProxy: RequestHandler = async (req, res) => {
     console.log("⏰ Error occurred at:", new Date().toISOString());
     console.log("=".repeat(80));
 
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
     res.status(500).json({
       error: "Failed to fetch PDF from upstream",
       details: error instanceof Error ? error.message : "Unknown error",
     });
   }
+}
+
+/**
+ * Hardened PDF proxy endpoint with debug headers and proper cookie handling
+ * Fixes blank PDFs by ensuring correct encoding and upstream headers
+ */
+export const handlePdfProxy: RequestHandler = async (req, res) => {
+  const rawIds = String(req.query.ids || "");
+  const ids = normalizeIdsParam(rawIds);
+
+  // Validate required parameters
+  if (!ids) {
+    res.status(400).json({ error: "Missing ids parameter" });
+    return;
+  }
+
+  const format = req.query.format === "full" ? "full" : "mini";
+
+  await proxyAirwaybillPdf(req, res, {
+    ids: ids.split("%2C").filter(Boolean),
+    format,
+    chunkSize: resolveChunkSize(req.query.chunkSize),
+    layout: resolveLayout(req.query.layout),
+    stamp: req.query.stamp === "1" || req.query.stamp === "true",
+    coverPage: req.query.cover === "1" || req.query.cover === "true",
+    batchId: req.query.batchId ? String(req.query.batchId).slice(0, 40) : "",
+    operator: req.query.operator ? String(req.query.operator).slice(0, 80) : "",
+  });
+};
+
+/**
+ * POST variant of the PDF proxy taking IDs in a JSON body
+ * Avoids URL length limits and comma-encoding issues for large batches
+ */
+export const handlePdfPost: RequestHandler = async (req, res) => {
+  const parsed = pdfRequestSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Invalid request body",
+      details: parsed.error.flatten(),
+    });
+    return;
+  }
+
+  const body = parsed.data;
+
+  await proxyAirwaybillPdf(req, res, {
+    ids: body.ids.map(String),
+    format: body.format,
+    chunkSize: resolveChunkSize(body.chunkSize),
+    filename: body.filename,
+    layout: body.layout,
+    stamp: body.stamp,
+    coverPage: body.coverPage,
+    batchId: body.batchId,
+    operator: body.operator,
+    orderNumbers: body.orderNumbers,
+  });
+};
+
+/**
+ * Body accepted by POST /api/pdf/zip
+ */
+const pdfZipRequestSchema = z.object({
+  orders: z
+    .array(
+      z.object({
+        id: z.number().int().positive(),
+        orderNumber: z.string().min(1).max(100),
+      }),
+    )
+    .min(1),
+  format: z.enum(["mini", "full"]).default("mini"),
+});
+
+/**
+ * File name for one order inside the ZIP; characters that are unsafe in
+ * file names become "_", and repeated order numbers get the Shipox ID appended
+ */
+function zipEntryName(
+  orderNumber: string,
+  id: number,
+  used: Set<string>,
+): string {
+  const base = orderNumber.replace(/[^\w\-.]/g, "_");
+  const name = used.has(base) ? `${base}-${id}` : base;
+  used.add(name);
+  return `${name}.pdf`;
+}
+
+/**
+ * Per-order airwaybills as a ZIP archive of <order_number>.pdf files
+ * Each upstream chunk is split back into one PDF per ID. Chunks that fail
+ * (or whose page count does not match their IDs) are left out, listed in
+ * X-Pdf-Failed-Chunks and in MISSING.txt inside the archive.
+ */
+export const handlePdfZip: RequestHandler = async (req, res) => {
+  const parsed = pdfZipRequestSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Invalid request body",
+      details: parsed.error.flatten(),
+    });
+    return;
+  }
+
+  const { jwt, cookie } = readUpstreamAuth(req);
+  if (!jwt) {
+    sendMissingToken(res);
+    return;
+  }
+
+  const orders = parsed.data.orders;
+  const format = parsed.data.format;
+  const chunks: (typeof orders)[] = [];
+  for (let i = 0; i < orders.length; i += DEFAULT_CHUNK_SIZE) {
+    chunks.push(orders.slice(i, i + DEFAULT_CHUNK_SIZE));
+  }
+
+  const t0 = Date.now();
+  console.log(
+    `🗜️  ZIP request: ${orders.length} orders (${format}), ${chunks.length} chunks`,
+  );
+
+  try {
+    const { results } = await runWorkerPool(
+      chunks,
+      CHUNK_CONCURRENCY,
+      (chunk, index) =>
+        fetchAirwaybillChunk(
+          chunk.map((o) => String(o.id)),
+          index,
+          format,
+          cookie,
+        ),
+    );
+
+    const unauthorized = results.find((r) => r.status === 401);
+    if (unauthorized) {
+      res.status(401).send(unauthorized.buf.toString());
+      return;
+    }
+
+    const files: { name: string; buf: Buffer }[] = [];
+    const failures: PdfChunkFailure[] = [];
+    const used = new Set<string>();
+
+    for (const result of results) {
+      const chunk = chunks[result.index];
+      let parts: Buffer[] | null = null;
+      let error = result.error;
+
+      if (!error) {
+        try {
+          parts = await splitPdf(result.buf, chunk.length);
+        } catch (splitError) {
+          error =
+            splitError instanceof Error &&
+            splitError.message === "PAGE_COUNT_MISMATCH"
+              ? "Page count does not match the number of orders"
+              : "Could not read upstream PDF";
+        }
+      }
+
+      if (!parts) {
+        failures.push({
+          index: result.index,
+          ids: result.ids,
+          status: result.status,
+          error,
+        });
+        continue;
+      }
+
+      chunk.forEach((order, i) => {
+        files.push({
+          name: zipEntryName(order.orderNumber, order.id, used),
+          buf: parts[i],
+        });
+      });
+    }
+
+    if (files.length === 0) {
+      const first = failures[0];
+      res.status(first.status >= 400 ? first.status : 502).json({
+        error: "Failed to fetch PDF from upstream",
+        details: first.error,
+      });
+      return;
+    }
+
+    if (failures.length > 0) {
+      const missing = failures
+        .flatMap((f) =>
+          chunks[f.index].map((o) => `${o.orderNumber}\t${o.id}\t${f.error}`),
+        )
+        .join("\n");
+      files.push({ name: "MISSING.txt", buf: Buffer.from(missing + "\n") });
+      res.setHeader("X-Pdf-Failed-Chunks", JSON.stringify(failures));
+    }
+
+    res.setHeader("Access-Control-Expose-Headers", "X-Pdf-Failed-Chunks");
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="airwaybills-${Date.now()}.zip"`,
+    );
+
+    // PDFs are already compressed, so entries are stored as-is and streamed
+    const zip = new Zip((error, data, final) => {
+      if (error) {
+        console.log("💥 ZIP stream error:", error.message);
+        res.destroy(error);
+        return;
+      }
+      res.write(data);
+      if (final) res.end();
+    });
+
+    for (const file of files) {
+      const entry = new ZipPassThrough(file.name);
+      zip.add(entry);
+      entry.push(file.buf, true);
+    }
+    zip.end();
+
+    console.log(
+      `✅ ZIP sent: ${files.length} files, ${failures.length} failed chunks in ${Date.now() - t0} ms`,
+    );
+  } catch (error) {
+    console.log(
+      "💥 ZIP request failed:",
+      error instanceof Error ? error.message : String(error),
+    );
+    res.status(500).json({
+      error: "Failed to build ZIP archive",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
 };
 
 /**
  * Legacy PDF preview endpoint (for backward compatibility)
  * Redirects to the main proxy with proper headers
  */
-export const handlePdfPreview: RequestHandler = async (req, res) => {
+export const handlePdfPreview: RequestHandler = async (req, res, next) => {
   console.log("[preview] redirecting to main proxy endpoint");
 
   // Extract parameters
@@ -221,5 +1140,5 @@ export const handlePdfPreview: RequestHandler = async (req, res) => {
 
   // Set headers and redirect to main proxy
   req.headers["x-auth-token"] = token;
-  return handlePdfProxy(req, res);
+  return handlePdfProxy(req, res, next);
 };
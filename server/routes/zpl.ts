@@ -0,0 +1,33 @@
+import { RequestHandler } from "express";
+import { zplRequestSchema } from "@shared/zplRequest";
+import { buildZplDocument } from "../lib/zpl";
+
+/**
+ * Airwaybills as a ZPL print job for Zebra thermal printers
+ * Labels are built from the order details found by the search, so no
+ * upstream PDF is fetched and no upstream session is needed; the job
+ * downloads as airwaybills-<time>.zpl.
+ */
+export const handleZplLabels: RequestHandler = (req, res) => {
+  const parsed = zplRequestSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Invalid request body",
+      details: parsed.error.flatten(),
+    });
+    return;
+  }
+
+  const { orders } = parsed.data;
+  const zpl = buildZplDocument(orders);
+
+  console.log(`🏷️  ZPL job: ${orders.length} labels, ${zpl.length} bytes`);
+
+  res.setHeader("Content-Type", "application/zpl; charset=utf-8");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="airwaybills-${Date.now()}.zpl"`,
+  );
+  res.send(zpl);
+};
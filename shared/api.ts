@@ -10,3 +10,248 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * A chunk of airwaybill IDs that the PDF proxy could not fetch from upstream.
+ * Sent JSON-encoded in the X-Pdf-Failed-Chunks header of /api/pdf responses.
+ */
+export interface PdfChunkFailure {
+  index: number; // Zero-based chunk position in the requested ID list
+  ids: string[];
+  status: number; // Upstream HTTP status, 0 when the request itself failed
+  error: string;
+}
+
+/**
+ * Upstream chunk whose PDF has a different number of pages than IDs
+ */
+export interface PdfChunkPageCount {
+  index: number; // Zero-based chunk position in the requested ID list
+  ids: string[];
+  pages: number | null; // null when the chunk PDF could not be parsed
+}
+
+/**
+ * Sent JSON-encoded in the X-Pdf-Warning header when upstream returned
+ * fewer (or an uneven number of) pages than IDs, i.e. it silently dropped
+ * orders. Chunks that failed outright are reported in X-Pdf-Failed-Chunks.
+ */
+export interface PdfPageCountWarning {
+  code: "PAGE_COUNT_MISMATCH";
+  expected: number; // IDs in the chunks that were fetched
+  actual: number; // Label pages in those chunks
+  chunks: PdfChunkPageCount[]; // Only the mismatching chunks
+}
+
+/**
+ * Airwaybill layouts offered by admin.fargo.uz
+ * "mini" is the compact label (airwaybill_mini), "full" the full-page waybill
+ */
+export type AirwaybillFormat = "mini" | "full";
+
+/**
+ * How labels are laid out in the downloaded PDF
+ * "single" keeps one label per page as upstream renders it; the A4 layouts
+ * place 2 or 4 labels on each A4 sheet with cut marks for office printers
+ */
+export type LabelLayout = "single" | "a4-2up" | "a4-4up";
+
+/**
+ * How the proxy post-processes the upstream labels
+ */
+export interface PdfRenderOptions {
+  layout?: LabelLayout; // Default: "single"
+  stamp?: boolean; // Footer on each label: batch, order number, time, operator
+  coverPage?: boolean; // Batch summary page before the labels
+  batchId?: string; // Printed in footers and on the cover page
+  operator?: string; // Username of whoever printed the batch
+  orderNumbers?: string[]; // Parallel to ids; printed in each label's footer
+}
+
+/**
+ * Request body for POST /api/pdf
+ */
+export interface PdfRequestBody extends PdfRenderOptions {
+  ids: number[];
+  format?: AirwaybillFormat; // Default: "mini"
+  filename?: string; // Suggested download name, ".pdf" is appended if missing
+  chunkSize?: number; // IDs per upstream request, capped by the server
+}
+
+/**
+ * One order to include in a per-order ZIP download
+ */
+export interface PdfZipOrder {
+  id: number; // Shipox ID
+  orderNumber: string; // Used as the file name inside the archive
+}
+
+/**
+ * Request body for POST /api/pdf/zip
+ */
+export interface PdfZipRequestBody {
+  orders: PdfZipOrder[];
+  format?: AirwaybillFormat; // Default: "mini"
+}
+
+// POST /api/zpl types are inferred from the schema the route validates with
+export type { ZplLabelOrder, ZplRequestBody } from "./zplRequest";
+
+/**
+ * Printer reported by the local print agent (GET /printers)
+ */
+export interface AgentPrinter {
+  name: string; // CUPS queue name, passed back as ?printer=
+  isDefault: boolean;
+}
+
+/**
+ * Print agent response to POST /print
+ */
+export interface AgentPrintResponse {
+  jobId: string; // CUPS job ID, e.g. "Zebra-42"
+  printer: string; // Queue the job went to
+  copies: number;
+}
+
+/**
+ * Order details shown in the results table (missing when Shipox omits them)
+ */
+export interface OrderDetails {
+  status?: string;
+  city?: string; // Recipient city
+  courier?: string;
+  codAmount?: number; // Cash on delivery
+  recipientName?: string;
+  recipientPhone?: string;
+  address?: string; // Recipient street address, without the city
+  createdAt?: string; // As returned by Shipox, for the created_at sort
+}
+
+/**
+ * Returned order whose order_number was not part of the request
+ */
+export interface UnrequestedOrder extends OrderDetails {
+  id: number;
+  orderNumber: string; // Empty when the API item has no order_number
+}
+
+/**
+ * Requested order number and the Shipox ID it resolved to
+ */
+export interface ResolvedOrder extends OrderDetails {
+  orderNumber: string; // Search token as requested by the user
+  id: number;
+}
+
+/**
+ * Shipox field a search token is matched against
+ */
+export type SearchType = "order_number" | "reference" | "phone";
+
+/**
+ * Search type chosen for a search; "auto" classifies each token by pattern
+ */
+export type SearchTypeOption = SearchType | "auto";
+
+/**
+ * Found order left out of the result by a status rule
+ */
+export interface SkippedOrder {
+  id: number;
+  orderNumber: string; // Empty for unrequested items without one
+  status: string;
+  reason: string;
+}
+
+/**
+ * Client cache usage for one search (set by the client, not the server)
+ */
+export interface CacheUsage {
+  hits: number;
+  misses: number;
+  bypassed: boolean; // true when the search could not use the cache
+}
+
+/**
+ * Search batch that still failed after retries; can be retried on its own
+ */
+export interface FailedBatch {
+  orderNumbers: string[];
+  searchType: SearchType; // Every batch searches a single type
+  error: string; // Last error code, e.g. SEARCH_FAILED_503
+  attempts: number;
+}
+
+/**
+ * Timing of one search batch, for tuning batchSize and concurrency
+ */
+export interface BatchTiming {
+  size: number; // Order numbers in the batch
+  items: number; // Items Shipox returned
+  attempts: number; // 0 if the batch never ran (deadline passed)
+  startMs: number; // Offset from the search start
+  durationMs: number; // Including retries and backoff
+  failed: boolean;
+}
+
+/**
+ * Server-side timing of a search
+ */
+export interface SearchStats {
+  batchSize: number;
+  concurrency: number;
+  totalMs: number;
+  batches: BatchTiming[]; // In batch (input) order
+}
+
+/**
+ * Result of resolving order numbers to Shipox IDs
+ */
+export interface SearchResult {
+  ids: number[];
+  idsEncoded: string; // IDs joined with %2C, ready for the PDF proxy
+  notFound: string[];
+  unrequested: UnrequestedOrder[];
+  orders: ResolvedOrder[]; // Matched orders, in the same order as `ids`
+  failedBatches: FailedBatch[]; // Their numbers are not in `notFound`
+  cache?: CacheUsage;
+  skipped?: SkippedOrder[]; // Set by the client status filter
+  stats?: SearchStats; // Absent when nothing was searched
+}
+
+/**
+ * How resolved orders (and therefore PDF pages) are ordered
+ */
+export type SortMode = "response" | "input" | "courier" | "city" | "created_at";
+
+/**
+ * Request body for POST /api/orders/resolve
+ */
+export interface ResolveOrdersRequest {
+  orderNumbers: string[];
+  batchSize?: number; // Order numbers per Shipox request, capped by the server
+  concurrency?: number; // Parallel Shipox requests, capped by the server
+  sortBy?: SortMode; // Default: "response"
+  searchType?: SearchTypeOption; // Default: "order_number"
+  pageTimeoutMs?: number; // Per Shipox page request, capped by the server
+  totalTimeoutMs?: number; // Whole-search deadline, capped by the server
+}
+
+/**
+ * Progress of a running order search
+ */
+export interface SearchProgress {
+  batchesCompleted: number;
+  batchesTotal: number;
+  itemsCollected: number;
+}
+
+/**
+ * One line of the NDJSON stream returned by /api/orders/resolve when the
+ * client sends "Accept: application/x-ndjson"
+ */
+export type ResolveStreamEvent =
+  | { type: "progress"; progress: SearchProgress }
+  | { type: "result"; result: SearchResult }
+  | { type: "error"; error: string };
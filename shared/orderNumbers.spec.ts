@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectSearchType,
+  filterOrdersByStatus,
+  matchRequestedOrders,
+  mergeResolvedOrders,
+  orderDetails,
+  reconcileOrderNumbers,
+  sortOrderItems,
+} from "./orderNumbers";
+
+describe("reconcileOrderNumbers", () => {
+  it("should report requested numbers missing from the response", () => {
+    const { notFound, unrequested } = reconcileOrderNumbers(
+      ["A1", "A2", "A3"],
+      [
+        { id: 1, order_number: "A1" },
+        { id: 3, order_number: "A3" },
+      ],
+    );
+    expect(notFound).toEqual(["A2"]);
+    expect(unrequested).toEqual([]);
+  });
+
+  it("should match order numbers ignoring case, whitespace and type", () => {
+    const { notFound } = reconcileOrderNumbers(
+      ["ab-1", "00123"],
+      [
+        { id: 1, order_number: " AB-1 " },
+        { id: 2, order_number: "00123" },
+      ],
+    );
+    expect(notFound).toEqual([]);
+  });
+
+  it("should flag unrequested items once per id", () => {
+    const { unrequested } = reconcileOrderNumbers(
+      ["A1"],
+      [
+        { id: 1, order_number: "A1" },
+        { id: 9, order_number: "B9" },
+        { id: 9, order_number: "B9" },
+        { id: "10" },
+      ],
+    );
+    expect(unrequested).toEqual([
+      { id: 9, orderNumber: "B9" },
+      { id: 10, orderNumber: "" },
+    ]);
+  });
+});
+
+describe("sortOrderItems", () => {
+  const items = [
+    { id: 3, order_number: "C", city: "Tashkent", created_date: "2024-03-01" },
+    { id: 9, order_number: "X" },
+    { id: 1, order_number: "A", city: "Samarkand", created_date: "2024-01-01" },
+    { id: 2, order_number: "B", city: "Bukhara", created_date: "2024-02-01" },
+  ];
+
+  it("should keep response order by default", () => {
+    expect(sortOrderItems(items, ["A", "B", "C"]).map((i) => i.id)).toEqual([
+      3, 9, 1, 2,
+    ]);
+  });
+
+  it("should follow the requested sequence with unmatched items last", () => {
+    expect(
+      sortOrderItems(items, ["B", "C", "A"], "input").map((i) => i.id),
+    ).toEqual([2, 3, 1, 9]);
+  });
+
+  it("should sort by field and put missing values last", () => {
+    expect(
+      sortOrderItems(items, ["A", "B", "C"], "city").map((i) => i.id),
+    ).toEqual([2, 1, 3, 9]);
+    expect(
+      sortOrderItems(items, ["A", "B", "C"], "created_at").map((i) => i.id),
+    ).toEqual([1, 2, 3, 9]);
+  });
+});
+
+describe("mergeResolvedOrders", () => {
+  const fresh = [
+    { id: 4, orderNumber: "D", city: "Andijan" },
+    { id: 2, orderNumber: "B", city: "Tashkent" },
+  ];
+  const cached = [
+    { id: 3, orderNumber: "C", city: "Bukhara" },
+    { id: 1, orderNumber: "A" },
+  ];
+
+  it("should slot extra orders into response order by typed position", () => {
+    expect(
+      mergeResolvedOrders(fresh, cached, ["A", "B", "C", "D"]).map((o) => o.id),
+    ).toEqual([1, 3, 4, 2]);
+  });
+
+  it("should sort merged orders by input or field", () => {
+    expect(
+      mergeResolvedOrders(fresh, cached, ["A", "B", "C", "D"], "input").map(
+        (o) => o.id,
+      ),
+    ).toEqual([1, 2, 3, 4]);
+    expect(
+      mergeResolvedOrders(fresh, cached, ["A", "B", "C", "D"], "city").map(
+        (o) => o.id,
+      ),
+    ).toEqual([4, 3, 2, 1]);
+  });
+});
+
+describe("matchRequestedOrders", () => {
+  it("should list matched orders once, using the requested spelling", () => {
+    expect(
+      matchRequestedOrders(
+        ["ab-1", "C3"],
+        [
+          { id: "5", order_number: "C3" },
+          { id: 7, order_number: "X9" },
+          { id: 4, order_number: "AB-1" },
+          { id: 4, order_number: "AB-1" },
+        ],
+      ),
+    ).toEqual([
+      { orderNumber: "C3", id: 5 },
+      { orderNumber: "ab-1", id: 4 },
+    ]);
+  });
+});
+
+describe("detectSearchType", () => {
+  it("should classify tokens by pattern", () => {
+    expect(detectSearchType("1234567")).toBe("order_number");
+    expect(detectSearchType("+998901234567")).toBe("phone");
+    expect(detectSearchType("998-90-123-45-67")).toBe("phone");
+    expect(detectSearchType("INV-2024/15")).toBe("reference");
+  });
+});
+
+describe("reconcileOrderNumbers by phone", () => {
+  it("should match phones regardless of country code", () => {
+    const { notFound } = reconcileOrderNumbers(
+      ["901234567", "+998911111111"],
+      [{ id: 1, customer: { phone: "998 90 123 45 67" } }],
+      "phone",
+    );
+    expect(notFound).toEqual(["+998911111111"]);
+  });
+});
+
+describe("orderDetails", () => {
+  it("should read the known field variants", () => {
+    expect(
+      orderDetails({
+        id: 1,
+        status: "in_transit",
+        to_city: { name: "Tashkent" },
+        driver: { name: "Aziz" },
+        cod: "150000",
+        recipient_data: { name: "Dilnoza", phone: "998901234567" },
+        created_date: "2024-03-01",
+      }),
+    ).toEqual({
+      status: "in_transit",
+      city: "Tashkent",
+      courier: "Aziz",
+      codAmount: 150000,
+      recipientName: "Dilnoza",
+      recipientPhone: "998901234567",
+      createdAt: "2024-03-01",
+    });
+    expect(orderDetails({ id: 2 })).toEqual({});
+  });
+});
+
+describe("filterOrdersByStatus", () => {
+  it("should skip excluded statuses in any spelling", () => {
+    const result = filterOrdersByStatus(
+      {
+        ids: [1, 2, 3],
+        idsEncoded: "1%2C2%2C3",
+        notFound: [],
+        unrequested: [{ id: 3, orderNumber: "C", status: "Delivered" }],
+        orders: [
+          { orderNumber: "A", id: 1, status: "Cancelled" },
+          { orderNumber: "B", id: 2, status: "ready-for-pickup" },
+        ],
+        failedBatches: [],
+      },
+      ["cancelled", "delivered"],
+    );
+
+    expect(result.ids).toEqual([2]);
+    expect(result.idsEncoded).toBe("2");
+    expect(result.skipped.map((o) => o.orderNumber)).toEqual(["A", "C"]);
+    expect(result.skipped[0].reason).toBe('status "Cancelled" is excluded');
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * Order number helpers shared by the client and the server-side search
+ * Normalizes user input and reconciles/sorts Shipox order items against it
+ */
+
+import type {
+  OrderDetails,
+  ResolvedOrder,
+  SearchResult,
+  SearchType,
+  SearchTypeOption,
+  SkippedOrder,
+  SortMode,
+  UnrequestedOrder,
+} from "./api";
+import { dedupePreserveOrder } from "./idExtractor";
+
+export { dedupePreserveOrder };
+
+// Types for order items - simplified based on actual API structure
+export type OrderItem = {
+  id: number | string; // Required: the unique identifier we need
+  order_number?: string | number; // Optional: for matching against requested orders
+  [key: string]: any; // Allow any other fields the API might return
+};
+
+/**
+ * Normalize order numbers input: split, trim, deduplicate, preserve order
+ * Keep as strings to preserve leading zeros and treat numbers as strings
+ * @param input - Raw textarea input with order numbers
+ * @returns Array of normalized order number strings
+ */
+export function normalizeOrderNumbers(input: string): string[] {
+  if (!input.trim()) return [];
+
+  // Split by commas, whitespace, or newlines
+  const numbers = input
+    .split(/[,\s]+/)
+    .map((s) => s.trim())
+    .filter(Boolean); // Remove empty strings
+
+  // Remove duplicates while preserving original order
+  return dedupePreserveOrder(numbers);
+}
+
+/**
+ * Canonical form used when comparing requested and returned order numbers
+ * @param value - Order number as typed by the user or returned by the API
+ * @returns Trimmed, lower-cased string ("" for missing values)
+ */
+export function orderNumberKey(
+  value: string | number | undefined | null,
+): string {
+  if (value === undefined || value === null) return "";
+  return String(value).trim().toLowerCase();
+}
+
+/**
+ * Shipox search_type value for each search type
+ */
+export const SHIPOX_SEARCH_TYPES: Record<SearchType, string> = {
+  order_number: "order_number",
+  reference: "reference_id",
+  phone: "phone",
+};
+
+/**
+ * Item fields compared against a token of each search type. Phones may sit
+ * on the recipient, the customer or the sender depending on the order.
+ */
+const SEARCH_TYPE_FIELDS: Record<
+  SearchType,
+  (item: OrderItem) => Array<string | number | undefined>
+> = {
+  order_number: (item) => [item.order_number],
+  reference: (item) => [item.reference_id, item.reference],
+  phone: (item) => [
+    item.recipient_data?.phone,
+    item.customer?.phone,
+    item.sender_data?.phone,
+    item.phone,
+  ],
+};
+
+/**
+ * Classify a token by pattern for mixed-mode ("auto") searches
+ * Phones are +-prefixed or Uzbek 998XXXXXXXXX numbers (separators allowed),
+ * other all-digit tokens are order numbers, anything else is a reference.
+ * @param token - One normalized search token
+ * @returns Search type the token is routed to
+ */
+export function detectSearchType(token: string): SearchType {
+  const compact = token.replace(/[-()]/g, "");
+  if (/^\+\d{9,15}$/.test(compact) || /^998\d{9}$/.test(compact)) {
+    return "phone";
+  }
+  if (/^\d+$/.test(compact)) return "order_number";
+  return "reference";
+}
+
+/**
+ * Resolve the search type of a token for the chosen option
+ * @param token - One normalized search token
+ * @param option - Search type selected for the search
+ * @returns The option itself, or the detected type in "auto" mode
+ */
+export function resolveSearchType(
+  token: string,
+  option: SearchTypeOption = "order_number",
+): SearchType {
+  return option === "auto" ? detectSearchType(token) : option;
+}
+
+/**
+ * Group tokens by the search type they are sent as, preserving input order
+ * @param tokens - Normalized search tokens
+ * @param option - Search type selected for the search
+ * @returns Tokens per search type (types without tokens are omitted)
+ */
+export function groupBySearchType(
+  tokens: string[],
+  option: SearchTypeOption = "order_number",
+): Partial<Record<SearchType, string[]>> {
+  const groups: Partial<Record<SearchType, string[]>> = {};
+  for (const token of tokens) {
+    const type = resolveSearchType(token, option);
+    (groups[type] ??= []).push(token);
+  }
+  return groups;
+}
+
+/**
+ * Canonical form of a token or item field for a given search type
+ * Phones compare on their last 9 digits so +998, 998 and local spellings
+ * match; other types use orderNumberKey. Keys are prefixed with the type.
+ * @param value - Token or item field value
+ * @param type - Search type the value belongs to
+ * @returns Comparable key ("" for missing values)
+ */
+export function searchKey(
+  value: string | number | undefined | null,
+  type: SearchType,
+): string {
+  if (type === "phone") {
+    const digits = String(value ?? "").replace(/\D/g, "");
+    return digits ? `phone:${digits.slice(-9)}` : "";
+  }
+  const key = orderNumberKey(value);
+  return key ? `${type}:${key}` : "";
+}
+
+/**
+ * Every key an item can be matched by, across all search types
+ * @param item - Shipox order item
+ * @returns Non-empty search keys
+ */
+function itemSearchKeys(item: OrderItem): string[] {
+  const keys: string[] = [];
+  for (const type of Object.keys(SEARCH_TYPE_FIELDS) as SearchType[]) {
+    for (const value of SEARCH_TYPE_FIELDS[type](item)) {
+      const key = searchKey(value, type);
+      if (key) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Map each requested token's search key to the first token spelling
+ */
+function requestedKeyMap(
+  requested: string[],
+  searchType: SearchTypeOption,
+): Map<string, string> {
+  const byKey = new Map<string, string>();
+  for (const n of requested) {
+    const key = searchKey(n, resolveSearchType(n, searchType));
+    if (key && !byKey.has(key)) byKey.set(key, n);
+  }
+  return byKey;
+}
+
+/**
+ * Reconcile requested order numbers against the items returned by the API
+ * @param requested - Normalized tokens that were searched for
+ * @param items - All items collected from the API
+ * @param searchType - Search type of the tokens (default "order_number")
+ * @returns Requested tokens without a matching item, and returned items
+ *          that match none of the tokens (deduplicated by id)
+ */
+export function reconcileOrderNumbers(
+  requested: string[],
+  items: OrderItem[],
+  searchType: SearchTypeOption = "order_number",
+): { notFound: string[]; unrequested: UnrequestedOrder[] } {
+  const requestedKeys = requestedKeyMap(requested, searchType);
+  const returnedKeys = new Set<string>();
+  const unrequested: UnrequestedOrder[] = [];
+  const seenUnrequestedIds = new Set<number>();
+
+  for (const item of items) {
+    const keys = itemSearchKeys(item);
+    keys.forEach((key) => returnedKeys.add(key));
+
+    if (!keys.some((key) => requestedKeys.has(key))) {
+      const id = Number(item.id);
+      if (!Number.isFinite(id) || seenUnrequestedIds.has(id)) continue;
+      seenUnrequestedIds.add(id);
+      unrequested.push({
+        id,
+        orderNumber: orderNumberKey(item.order_number)
+          ? String(item.order_number).trim()
+          : "",
+        ...orderDetails(item),
+      });
+    }
+  }
+
+  const notFound = requested.filter(
+    (n) => !returnedKeys.has(searchKey(n, resolveSearchType(n, searchType))),
+  );
+
+  return { notFound, unrequested };
+}
+
+/**
+ * List the requested orders that were found, in the order of `items`
+ * @param requested - Normalized tokens that were searched for
+ * @param items - Returned items, already sorted
+ * @param searchType - Search type of the tokens (default "order_number")
+ * @returns One entry per matched id, using the requested spelling
+ */
+export function matchRequestedOrders(
+  requested: string[],
+  items: OrderItem[],
+  searchType: SearchTypeOption = "order_number",
+): ResolvedOrder[] {
+  const requestedByKey = requestedKeyMap(requested, searchType);
+  const seenIds = new Set<number>();
+  const orders: ResolvedOrder[] = [];
+
+  for (const item of items) {
+    const orderNumber = itemSearchKeys(item)
+      .map((key) => requestedByKey.get(key))
+      .find(Boolean);
+    const id = Number(item.id);
+    if (!orderNumber || !Number.isFinite(id) || seenIds.has(id)) continue;
+    seenIds.add(id);
+    orders.push({ orderNumber, id, ...orderDetails(item) });
+  }
+
+  return orders;
+}
+
+/**
+ * Field accessors for the non-input sort modes. Shipox has returned these
+ * fields under different names over time, so each accessor checks the known
+ * variants in turn.
+ */
+const SORT_FIELD_ACCESSORS: Record<
+  Exclude<SortMode, "response" | "input">,
+  (item: OrderItem) => string | number | undefined
+> = {
+  courier: (item) =>
+    item.courier?.name ?? item.driver?.name ?? item.courier_name ?? undefined,
+  city: (item) =>
+    item.recipient_data?.city?.name ??
+    item.to_city?.name ??
+    item.city ??
+    undefined,
+  created_at: (item) => parseTime(item.created_date ?? item.created_at),
+};
+
+/**
+ * The same fields read from resolved orders, whose details were extracted by
+ * orderDetails (cached orders have no Shipox item to sort by)
+ */
+const RESOLVED_FIELD_ACCESSORS: Record<
+  Exclude<SortMode, "response" | "input">,
+  (order: ResolvedOrder) => string | number | undefined
+> = {
+  courier: (order) => order.courier,
+  city: (order) => order.city,
+  created_at: (order) => parseTime(order.createdAt),
+};
+
+/**
+ * Parse a Shipox date into milliseconds
+ */
+function parseTime(raw: string | undefined): number | undefined {
+  const time = raw ? Date.parse(raw) : NaN;
+  return Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * Comparator for a field sort: items without a value go after items that
+ * have one, ties fall back to `byInput`
+ */
+function byField<T>(
+  accessor: (item: T) => string | number | undefined,
+  byInput: (a: T, b: T) => number,
+): (a: T, b: T) => number {
+  return (a, b) => {
+    const va = accessor(a);
+    const vb = accessor(b);
+
+    if (va === undefined || vb === undefined) {
+      if (va !== vb) return va === undefined ? 1 : -1;
+      return byInput(a, b);
+    }
+
+    const cmp =
+      typeof va === "number" && typeof vb === "number"
+        ? va - vb
+        : String(va).localeCompare(String(vb));
+    return cmp !== 0 ? cmp : byInput(a, b);
+  };
+}
+
+/**
+ * Extract the details shown in the results table from a Shipox item
+ * @param item - Shipox order item
+ * @returns Details with missing fields left undefined
+ */
+export function orderDetails(item: OrderItem): OrderDetails {
+  const status = item.status?.name ?? item.status ?? item.order_status;
+  const city = SORT_FIELD_ACCESSORS.city(item);
+  const courier = SORT_FIELD_ACCESSORS.courier(item);
+  const cod = Number(item.cod ?? item.cod_amount ?? item.cod_value);
+  const recipient = item.recipient_data ?? item.customer ?? {};
+  const text = (value: unknown) =>
+    value === undefined || value === null || value === ""
+      ? undefined
+      : String(value);
+
+  return {
+    status: typeof status === "string" ? status : undefined,
+    city: text(city),
+    courier: text(courier),
+    codAmount: Number.isFinite(cod) ? cod : undefined,
+    recipientName: text(recipient.name),
+    recipientPhone: text(recipient.phone),
+    address: text(recipient.address ?? recipient.street),
+    createdAt: text(item.created_date ?? item.created_at),
+  };
+}
+
+/**
+ * Sort returned items according to the requested mode
+ * Ties (and every item in "input" mode) fall back to the position of the
+ * token the item matched in the requested sequence; unmatched items go last.
+ * @param items - All collected items, in API response order
+ * @param requested - Normalized tokens in the order they were typed
+ * @param sortBy - Sort mode
+ * @param searchType - Search type of the tokens (default "order_number")
+ * @returns New array of items in the requested order
+ */
+export function sortOrderItems(
+  items: OrderItem[],
+  requested: string[],
+  sortBy: SortMode = "response",
+  searchType: SearchTypeOption = "order_number",
+): OrderItem[] {
+  if (sortBy === "response") return items.slice();
+
+  const inputRank = new Map<string, number>();
+  requested.forEach((n, index) => {
+    const key = searchKey(n, resolveSearchType(n, searchType));
+    if (!inputRank.has(key)) inputRank.set(key, index);
+  });
+
+  const rankOf = (item: OrderItem) =>
+    Math.min(
+      Infinity,
+      ...itemSearchKeys(item).map((key) => inputRank.get(key) ?? Infinity),
+    );
+
+  const byInput = (a: OrderItem, b: OrderItem) => {
+    const ra = rankOf(a);
+    const rb = rankOf(b);
+    return ra === rb ? 0 : ra < rb ? -1 : 1;
+  };
+
+  if (sortBy === "input") return items.slice().sort(byInput);
+
+  return items.slice().sort(byField(SORT_FIELD_ACCESSORS[sortBy], byInput));
+}
+
+/**
+ * Combine resolved orders from two searches (fresh and cached, or a retried
+ * batch) in the requested order
+ * "response" keeps `base` in API order and slots each `extra` order in
+ * before the first base order that was typed after it; the other modes sort
+ * everything like sortOrderItems, using the extracted details.
+ * @param base - Orders of the main search
+ * @param extra - Orders of the additional search; IDs already in `base` are dropped
+ * @param requested - Normalized tokens in the order they were typed
+ * @param sortBy - Sort mode
+ * @returns New array of orders in the requested order
+ */
+export function mergeResolvedOrders(
+  base: ResolvedOrder[],
+  extra: ResolvedOrder[],
+  requested: string[],
+  sortBy: SortMode = "response",
+): ResolvedOrder[] {
+  const seenIds = new Set<number>();
+  const unique = (orders: ResolvedOrder[]) =>
+    orders.filter((o) => {
+      if (seenIds.has(o.id)) return false;
+      seenIds.add(o.id);
+      return true;
+    });
+  const baseOrders = unique(base);
+  const extraOrders = unique(extra);
+
+  const inputRank = new Map<string, number>();
+  requested.forEach((n, index) => {
+    const key = orderNumberKey(n);
+    if (!inputRank.has(key)) inputRank.set(key, index);
+  });
+  const rankOf = (o: ResolvedOrder) =>
+    inputRank.get(orderNumberKey(o.orderNumber)) ?? Infinity;
+  const byInput = (a: ResolvedOrder, b: ResolvedOrder) => {
+    const ra = rankOf(a);
+    const rb = rankOf(b);
+    return ra === rb ? 0 : ra < rb ? -1 : 1;
+  };
+
+  if (sortBy === "response") {
+    const pending = extraOrders.sort(byInput);
+    const merged: ResolvedOrder[] = [];
+    for (const order of baseOrders) {
+      while (pending.length > 0 && byInput(pending[0], order) < 0) {
+        merged.push(pending.shift()!);
+      }
+      merged.push(order);
+    }
+    return [...merged, ...pending];
+  }
+
+  const all = [...baseOrders, ...extraOrders];
+  if (sortBy === "input") return all.sort(byInput);
+
+  return all.sort(byField(RESOLVED_FIELD_ACCESSORS[sortBy], byInput));
+}
+
+/**
+ * Canonical form of an order status for comparisons
+ * @param status - Status as returned by Shipox or typed by the user
+ * @returns Lower-cased status with spaces and dashes as underscores
+ */
+export function statusKey(status: string | undefined | null): string {
+  return String(status ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Drop found orders whose status is excluded and record why
+ * Orders without a known status are kept.
+ * @param result - Search result with order details
+ * @param excludeStatuses - Statuses to leave out (any spelling)
+ * @returns Result without the excluded orders; they are added to `skipped`
+ */
+export function filterOrdersByStatus(
+  result: SearchResult,
+  excludeStatuses: string[],
+): SearchResult {
+  const excluded = new Set(excludeStatuses.map(statusKey).filter(Boolean));
+  if (excluded.size === 0) return result;
+
+  const skipped: SkippedOrder[] = [];
+  const skippedIds = new Set<number>();
+
+  const keep = (order: ResolvedOrder | UnrequestedOrder) => {
+    if (!order.status || !excluded.has(statusKey(order.status))) return true;
+    if (!skippedIds.has(order.id)) {
+      skippedIds.add(order.id);
+      skipped.push({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        reason: `status "${order.status}" is excluded`,
+      });
+    }
+    return false;
+  };
+
+  const orders = result.orders.filter(keep);
+  const unrequested = result.unrequested.filter(keep);
+  const ids = result.ids.filter((id) => !skippedIds.has(id));
+
+  return {
+    ...result,
+    ids,
+    idsEncoded: ids.map(String).join("%2C"),
+    orders,
+    unrequested,
+    skipped: [...(result.skipped ?? []), ...skipped],
+  };
+}
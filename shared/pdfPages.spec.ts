@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { checkPageCounts } from "./pdfPages";
+
+describe("checkPageCounts", () => {
+  it("should accept chunks with one or more pages per ID", () => {
+    expect(
+      checkPageCounts([
+        { index: 0, ids: ["1", "2"], pages: 2 },
+        { index: 1, ids: ["3"], pages: 2 },
+      ]),
+    ).toBeUndefined();
+  });
+
+  it("should report chunks with dropped or unreadable pages", () => {
+    expect(
+      checkPageCounts([
+        { index: 0, ids: ["1", "2"], pages: 2 },
+        { index: 1, ids: ["3", "4", "5"], pages: 2 },
+        { index: 2, ids: ["6"], pages: null },
+      ]),
+    ).toEqual({
+      code: "PAGE_COUNT_MISMATCH",
+      expected: 6,
+      actual: 4,
+      chunks: [
+        { index: 1, ids: ["3", "4", "5"], pages: 2 },
+        { index: 2, ids: ["6"], pages: null },
+      ],
+    });
+  });
+});
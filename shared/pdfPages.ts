@@ -0,0 +1,31 @@
+import type { PdfChunkPageCount, PdfPageCountWarning } from "./api";
+
+/**
+ * Page-count checks shared by the PDF proxy and the client
+ * (the client checks streamed PDFs, which arrive without X-Page-Count)
+ */
+
+/**
+ * Compare each chunk's page count with its IDs
+ * Every ID should render the same number of pages (one for mini labels), so
+ * a chunk is suspicious when it has fewer pages than IDs or the pages do not
+ * divide evenly between them.
+ * @param chunks - Fetched chunks with their page counts
+ * @returns Warning listing the mismatching chunks, or undefined if all match
+ */
+export function checkPageCounts(
+  chunks: PdfChunkPageCount[],
+): PdfPageCountWarning | undefined {
+  const mismatched = chunks.filter(
+    ({ ids, pages }) =>
+      pages === null || pages < ids.length || pages % ids.length !== 0,
+  );
+  if (mismatched.length === 0) return undefined;
+
+  return {
+    code: "PAGE_COUNT_MISMATCH",
+    expected: chunks.reduce((sum, c) => sum + c.ids.length, 0),
+    actual: chunks.reduce((sum, c) => sum + (c.pages ?? 0), 0),
+    chunks: mismatched,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { runWorkerPool } from "./workerPool";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("runWorkerPool", () => {
+  it("should start the next task as soon as a slot frees up", async () => {
+    const started: number[] = [];
+
+    // Item 0 is slow; items 1-3 should all run in the second slot meanwhile
+    const { results } = await runWorkerPool(
+      [60, 5, 5, 5],
+      2,
+      async (ms, index) => {
+        started.push(index);
+        await wait(ms);
+        if (index === 0) expect(started).toEqual([0, 1, 2, 3]);
+        return index * 10;
+      },
+    );
+
+    expect(results).toEqual([0, 10, 20, 30]);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const { timings } = await runWorkerPool(
+      Array.from({ length: 8 }, (_, i) => i),
+      3,
+      async (i) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await wait(i % 3);
+        inFlight--;
+      },
+    );
+
+    expect(peak).toBe(3);
+    expect(timings).toHaveLength(8);
+  });
+
+  it("should stop starting tasks after a failure", async () => {
+    const started: number[] = [];
+
+    await expect(
+      runWorkerPool([0, 1, 2, 3], 1, async (i) => {
+        started.push(i);
+        if (i === 1) throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    expect(started).toEqual([0, 1]);
+  });
+});
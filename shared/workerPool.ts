@@ -0,0 +1,67 @@
+/**
+ * Sliding-window worker pool for batched network work
+ * Keeps `concurrency` tasks in flight at all times: as soon as one finishes
+ * the next starts, so a slow task never holds back the other slots
+ */
+
+/**
+ * When one pool task ran, relative to the start of the pool
+ */
+export interface TaskTiming {
+  startMs: number; // Offset from the pool start
+  durationMs: number;
+}
+
+/**
+ * Outcome of a completed pool run
+ */
+export interface PoolResult<R> {
+  results: R[]; // In item order, regardless of completion order
+  timings: TaskTiming[]; // In item order
+  totalMs: number;
+}
+
+/**
+ * Run an async task over every item with at most `concurrency` in flight
+ * If a task throws, no new tasks are started and the pool rejects with that
+ * error; tasks already running are left to settle on their own.
+ * @param items - Inputs, started in order
+ * @param concurrency - Maximum tasks in flight (at least 1)
+ * @param task - Async work for one item
+ * @returns Promise with results and per-task timings in item order
+ */
+export async function runWorkerPool<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<PoolResult<R>> {
+  const results: R[] = new Array(items.length);
+  const timings: TaskTiming[] = new Array(items.length);
+  const t0 = Date.now();
+  let next = 0;
+  let stopped = false;
+
+  const worker = async () => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      const startedAt = Date.now();
+
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      } finally {
+        timings[index] = {
+          startMs: startedAt - t0,
+          durationMs: Date.now() - startedAt,
+        };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return { results, timings, totalMs: Date.now() - t0 };
+}
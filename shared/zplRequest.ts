@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+/**
+ * Request body for POST /api/zpl
+ * The route validates with this schema and the request types are inferred
+ * from it, so the two cannot drift apart.
+ */
+
+const optionalText = z.string().max(300).optional();
+
+export const zplRequestSchema = z.object({
+  orders: z
+    .array(
+      z.object({
+        id: z.number().int().positive(), // Shipox ID
+        orderNumber: z.string().min(1).max(100), // Encoded in the label barcode
+        status: optionalText,
+        city: optionalText,
+        courier: optionalText,
+        codAmount: z.number().optional(),
+        recipientName: optionalText,
+        recipientPhone: optionalText,
+        address: optionalText,
+      }),
+    )
+    .min(1),
+});
+
+export type ZplRequestBody = z.infer<typeof zplRequestSchema>;
+
+/**
+ * One order to print as a ZPL label, with the details printed on it
+ */
+export type ZplLabelOrder = ZplRequestBody["orders"][number];
@@ -0,0 +1,42 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Local print agent build (server/print-agent.ts), so the packing station
+// runs plain node without the TypeScript dev tooling
+export default defineConfig({
+  build: {
+    lib: {
+      entry: path.resolve(__dirname, "server/print-agent.ts"),
+      name: "print-agent",
+      fileName: "print-agent",
+      formats: ["es"],
+    },
+    outDir: "dist/print-agent",
+    target: "node22",
+    ssr: true,
+    rollupOptions: {
+      external: [
+        // Node.js built-ins
+        "fs/promises",
+        "os",
+        "path",
+        "child_process",
+        "util",
+        // External dependencies that should not be bundled
+        "express",
+        "dotenv/config",
+      ],
+      output: {
+        format: "es",
+        entryFileNames: "[name].mjs",
+      },
+    },
+    minify: false, // Keep readable for debugging
+    sourcemap: true,
+  },
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "./shared"),
+    },
+  },
+});
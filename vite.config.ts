@@ -1,7 +1,6 @@
-import { defineConfig, Plugin } from "vite";
+import { defineConfig, Plugin, type Connect } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -30,10 +29,22 @@ function expressPlugin(): Plugin {
     name: "express-plugin",
     apply: "serve", // Only apply during development (serve mode)
     configureServer(server) {
-      const app = createServer();
+      // Loaded through Vite instead of imported by this config, so the
+      // server's @shared imports resolve with the alias above
+      let app: Promise<Connect.NextHandleFunction> | undefined;
 
       // Add Express app as middleware to Vite dev server
-      server.middlewares.use(app);
+      server.middlewares.use((req, res, next) => {
+        app ??= server
+          .ssrLoadModule("/server/index.ts")
+          .then((mod) => mod.createServer())
+          .catch((error) => {
+            // Load again on the next request (e.g. after fixing a syntax error)
+            app = undefined;
+            throw error;
+          });
+        app.then((express) => express(req, res, next), next);
+      });
     },
   };
 }